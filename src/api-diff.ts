@@ -0,0 +1,320 @@
+import { ExtractedKind, ExtractedType, ParameterInfo, PropertyInfo } from './ast-parser.js'
+
+export type ApiChangeKind =
+  | 'added'
+  | 'removed'
+  | 'kind-changed'
+  | 'signature-changed'
+  | 'parameter-added'
+  | 'parameter-removed'
+  | 'parameter-changed'
+  | 'return-changed'
+  | 'property-added'
+  | 'property-removed'
+  | 'property-changed'
+  | 'member-added'
+  | 'member-removed'
+  | 'member-changed'
+
+export interface ApiChange {
+  name: string
+  kind: ApiChangeKind
+  declarationKind: ExtractedKind
+  file: string
+  breaking: boolean
+  /** Parâmetro, propriedade ou membro de enum afetado */
+  member?: string
+  before?: string
+  after?: string
+  reason: string
+}
+
+/**
+ * Compara dois índices de símbolos (ex: duas versões do whaileys) e classifica cada
+ * diferença como breaking ou não, do ponto de vista de quem consome a biblioteca.
+ */
+export function diffApi(before: ExtractedType[], after: ExtractedType[]): ApiChange[] {
+  const beforeByName = indexByName(before)
+  const afterByName = indexByName(after)
+  const changes: ApiChange[] = []
+
+  for (const [name, old] of beforeByName) {
+    const current = afterByName.get(name)
+    if (!current) {
+      changes.push({
+        name,
+        kind: 'removed',
+        declarationKind: old.kind,
+        file: old.file,
+        breaking: true,
+        before: old.signature,
+        reason: 'export removido',
+      })
+      continue
+    }
+
+    if (old.kind !== current.kind) {
+      changes.push({
+        name,
+        kind: 'kind-changed',
+        declarationKind: current.kind,
+        file: current.file,
+        breaking: true,
+        before: old.kind,
+        after: current.kind,
+        reason: `deixou de ser ${old.kind} e passou a ser ${current.kind}`,
+      })
+      continue
+    }
+
+    changes.push(...diffDeclaration(old, current))
+  }
+
+  for (const [name, current] of afterByName) {
+    if (beforeByName.has(name)) continue
+    changes.push({
+      name,
+      kind: 'added',
+      declarationKind: current.kind,
+      file: current.file,
+      breaking: false,
+      after: current.signature,
+      reason: 'novo export',
+    })
+  }
+
+  return changes.sort((a, b) => Number(b.breaking) - Number(a.breaking) || a.name.localeCompare(b.name))
+}
+
+function indexByName(types: ExtractedType[]): Map<string, ExtractedType> {
+  const byName = new Map<string, ExtractedType>()
+  for (const type of types) {
+    if (type.kind === 're-export' || byName.has(type.name)) continue
+    byName.set(type.name, type)
+  }
+  return byName
+}
+
+function diffDeclaration(old: ExtractedType, current: ExtractedType): ApiChange[] {
+  const change = (partial: Omit<ApiChange, 'name' | 'declarationKind' | 'file'>): ApiChange => ({
+    name: current.name,
+    declarationKind: current.kind,
+    file: current.file,
+    ...partial,
+  })
+
+  if (current.kind === 'enum') {
+    return diffEnumMembers(old.members ?? [], current.members ?? []).map(change)
+  }
+
+  if (old.parameters && current.parameters) {
+    const changes = diffParameters(old.parameters, current.parameters).map(change)
+    if (normalize(old.returnType) !== normalize(current.returnType)) {
+      changes.push(
+        change({
+          kind: 'return-changed',
+          breaking: true,
+          before: old.returnType,
+          after: current.returnType,
+          reason: 'tipo de retorno mudou',
+        }),
+      )
+    }
+    return changes
+  }
+
+  if (old.properties || current.properties || old.methods || current.methods) {
+    return diffProperties(
+      [...(old.properties ?? []), ...(old.methods ?? [])],
+      [...(current.properties ?? []), ...(current.methods ?? [])],
+    ).map(change)
+  }
+
+  if (normalize(old.signature) !== normalize(current.signature)) {
+    return [
+      change({
+        kind: 'signature-changed',
+        // Constantes mudam de valor sem quebrar quem as usa; tipos mudam de forma
+        breaking: current.kind !== 'variable',
+        before: old.signature,
+        after: current.signature,
+        reason: current.kind === 'variable' ? 'declaração mudou' : 'definição do tipo mudou',
+      }),
+    ]
+  }
+
+  return []
+}
+
+type PartialChange = Omit<ApiChange, 'name' | 'declarationKind' | 'file'>
+
+function diffParameters(before: ParameterInfo[], after: ParameterInfo[]): PartialChange[] {
+  const changes: PartialChange[] = []
+
+  for (let index = 0; index < Math.max(before.length, after.length); index++) {
+    const old = before[index]
+    const current = after[index]
+
+    if (!current) {
+      changes.push({
+        kind: 'parameter-removed',
+        member: old.name,
+        breaking: true,
+        before: formatParameter(old),
+        reason: `parâmetro ${index + 1} removido`,
+      })
+    } else if (!old) {
+      const optional = current.optional || current.rest || current.defaultValue !== undefined
+      changes.push({
+        kind: 'parameter-added',
+        member: current.name,
+        breaking: !optional,
+        after: formatParameter(current),
+        reason: optional ? 'parâmetro opcional adicionado' : 'parâmetro obrigatório adicionado',
+      })
+    } else if (normalize(old.type) !== normalize(current.type)) {
+      changes.push({
+        kind: 'parameter-changed',
+        member: current.name,
+        breaking: true,
+        before: formatParameter(old),
+        after: formatParameter(current),
+        reason: `tipo do parâmetro ${index + 1} mudou`,
+      })
+    } else if (isOptionalParameter(old) !== isOptionalParameter(current)) {
+      const nowRequired = !isOptionalParameter(current)
+      changes.push({
+        kind: 'parameter-changed',
+        member: current.name,
+        breaking: nowRequired,
+        before: formatParameter(old),
+        after: formatParameter(current),
+        reason: nowRequired ? 'parâmetro passou a ser obrigatório' : 'parâmetro passou a ser opcional',
+      })
+    }
+  }
+
+  return changes
+}
+
+function diffProperties(before: PropertyInfo[], after: PropertyInfo[]): PartialChange[] {
+  const changes: PartialChange[] = []
+  const oldByName = new Map(before.map((p) => [p.name, p]))
+  const currentByName = new Map(after.map((p) => [p.name, p]))
+
+  for (const [name, old] of oldByName) {
+    const current = currentByName.get(name)
+    if (!current) {
+      changes.push({
+        kind: 'property-removed',
+        member: name,
+        breaking: true,
+        before: formatProperty(old),
+        reason: 'propriedade removida',
+      })
+    } else if (old.optional !== current.optional && !typeChanged(old, current)) {
+      changes.push({
+        kind: 'property-changed',
+        member: name,
+        breaking: old.optional,
+        before: formatProperty(old),
+        after: formatProperty(current),
+        reason: old.optional ? 'propriedade opcional passou a ser obrigatória' : 'propriedade passou a ser opcional',
+      })
+    } else if (typeChanged(old, current)) {
+      changes.push({
+        kind: 'property-changed',
+        member: name,
+        breaking: true,
+        before: formatProperty(old),
+        after: formatProperty(current),
+        reason: 'tipo da propriedade mudou',
+      })
+    }
+  }
+
+  for (const [name, current] of currentByName) {
+    if (oldByName.has(name)) continue
+    const required = !current.optional && !current.isMethod
+    changes.push({
+      kind: 'property-added',
+      member: name,
+      breaking: required,
+      after: formatProperty(current),
+      reason: required ? 'propriedade obrigatória adicionada' : 'propriedade adicionada',
+    })
+  }
+
+  return changes
+}
+
+function diffEnumMembers(before: string[], after: string[]): PartialChange[] {
+  const changes: PartialChange[] = []
+  const oldByName = new Map(before.map((m) => [m.split(' = ')[0], m]))
+  const currentByName = new Map(after.map((m) => [m.split(' = ')[0], m]))
+
+  for (const [name, old] of oldByName) {
+    const current = currentByName.get(name)
+    if (!current) {
+      changes.push({ kind: 'member-removed', member: name, breaking: true, before: old, reason: 'membro removido' })
+    } else if (old !== current) {
+      changes.push({
+        kind: 'member-changed',
+        member: name,
+        breaking: true,
+        before: old,
+        after: current,
+        reason: 'valor do membro mudou',
+      })
+    }
+  }
+
+  for (const [name, current] of currentByName) {
+    if (oldByName.has(name)) continue
+    changes.push({ kind: 'member-added', member: name, breaking: false, after: current, reason: 'membro adicionado' })
+  }
+
+  return changes
+}
+
+function isOptionalParameter(param: ParameterInfo): boolean {
+  return param.optional || !!param.rest || param.defaultValue !== undefined
+}
+
+function formatParameter(param: ParameterInfo): string {
+  return `${param.rest ? '...' : ''}${param.name}${param.optional ? '?' : ''}: ${param.type}`
+}
+
+function formatProperty(prop: PropertyInfo): string {
+  return `${prop.name}${prop.optional ? '?' : ''}: ${withoutUndefined(prop)}`
+}
+
+/**
+ * O checker inclui `| undefined` no tipo de membros opcionais (`browser?: string` vira
+ * `string | undefined`), então a comparação ignora esse sufixo para não reportar como mudança
+ * de tipo o que é só mudança de opcionalidade.
+ */
+function typeChanged(old: PropertyInfo, current: PropertyInfo): boolean {
+  return normalize(withoutUndefined(old)) !== normalize(withoutUndefined(current))
+}
+
+function withoutUndefined(prop: PropertyInfo): string {
+  if (!prop.optional) return prop.type
+  const type = prop.type.replace(/\s*\|\s*undefined\s*$/, '')
+  return isWrappedInParens(type) ? type.slice(1, -1) : type
+}
+
+function isWrappedInParens(text: string): boolean {
+  if (!text.startsWith('(') || !text.endsWith(')')) return false
+  let depth = 0
+  for (let index = 0; index < text.length; index++) {
+    if (text[index] === '(') depth++
+    else if (text[index] === ')') depth--
+    if (depth === 0 && index < text.length - 1) return false
+  }
+  return true
+}
+
+function normalize(text: string | undefined): string {
+  return (text ?? '').replace(/\s+/g, ' ').replace(/;\s*}/g, ' }').trim()
+}
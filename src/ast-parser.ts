@@ -9,9 +9,25 @@ import {
   VariableDeclaration,
   ModuleDeclaration,
   ExportDeclaration,
+  ArrowFunction,
+  FunctionExpression,
+  ParameterDeclaration,
+  TypeLiteralNode,
   Node,
+  SyntaxKind,
+  Type,
+  Diagnostic,
+  ts,
 } from 'ts-morph'
+import * as fs from 'fs'
 import * as path from 'path'
+import { SearchIndex, SearchHit } from './search-index.js'
+
+/**
+ * Versão do formato de `ExtractedType`. Incrementar sempre que a extração mudar,
+ * para invalidar os índices persistidos em disco.
+ */
+export const PARSER_SCHEMA_VERSION = 13
 
 export type ExtractedKind =
   | 'interface'
@@ -23,17 +39,80 @@ export type ExtractedKind =
   | 'namespace'
   | 're-export'
 
+export type ExtractedVisibility = 'public' | 'internal'
+
+export interface JsDocParamTag {
+  name: string
+  description: string
+}
+
+export interface JsDocTags {
+  params?: JsDocParamTag[]
+  returns?: string
+  /** Presente (mesmo vazio) quando a declaração tem `@deprecated`. */
+  deprecated?: string
+  examples?: string[]
+  see?: string[]
+  defaultValue?: string
+}
+
+const DEPRECATION_REPLACEMENT_PATTERNS = [
+  /\{@link\s+([\w.]+)[^}]*\}/,
+  /\buse\s+`([^`]+)`/i,
+  /\b(?:use|prefer|replaced by|substituído por|usar)\s+([A-Za-z_$][\w.$]*)/i,
+]
+
+/**
+ * Sugere o substituto de uma declaração deprecated a partir da mensagem do `@deprecated`
+ * (ex: "use `me.id` instead") ou, na falta dela, do primeiro `@see`.
+ */
+export function getDeprecationReplacement(tags: JsDocTags | undefined): string | undefined {
+  if (tags?.deprecated === undefined) return undefined
+  for (const pattern of DEPRECATION_REPLACEMENT_PATTERNS) {
+    const match = tags.deprecated.match(pattern)
+    if (match) return match[1].replace(/\(\)$/, '')
+  }
+  return tags.see?.[0]
+}
+
+export type MemberScope = 'public' | 'protected'
+
+export type AccessorKind = 'get' | 'set' | 'get/set'
+
 export interface PropertyInfo {
   name: string
   type: string
   optional: boolean
   readonly: boolean
   docs?: string
+  tags?: JsDocTags
   isMethod: boolean
   isCallSignature: boolean
   isIndexSignature: boolean
+  lineNumber?: number
   parameters?: string[]
   returnType?: string
+  scope?: MemberScope
+  isStatic?: boolean
+  isAbstract?: boolean
+  isConstructor?: boolean
+  isParameterProperty?: boolean
+  accessor?: AccessorKind
+}
+
+export interface ParameterInfo {
+  name: string
+  type: string
+  optional: boolean
+  defaultValue?: string
+  rest?: boolean
+}
+
+export interface FunctionOverload {
+  signature: string
+  parameters: ParameterInfo[]
+  returnType: string
+  docs?: string
 }
 
 export interface TypeParameter {
@@ -54,11 +133,19 @@ export interface ExtractedType {
   methods?: PropertyInfo[]
   members?: string[]
   typeParameters?: TypeParameter[]
+  parameters?: ParameterInfo[]
+  returnType?: string
+  overloads?: FunctionOverload[]
   extends?: string[]
   implements?: string[]
   docs?: string
+  tags?: JsDocTags
   value?: string
   reExportSource?: string
+  reExportChains?: string[]
+  exportedAs?: string[]
+  resolvedExports?: string[]
+  visibility?: ExtractedVisibility
   lineNumber?: number
 }
 
@@ -84,17 +171,283 @@ export interface LibraryStatistics {
   topFunctions: string[]
 }
 
+export interface ExpandedTypeNode {
+  name: string
+  type: string
+  optional?: boolean
+  docs?: string
+  deprecated?: string
+  reference?: string
+  file?: string
+  children?: ExpandedTypeNode[]
+  omittedProperties?: number
+  circular?: boolean
+}
+
+export type DeprecationKind = 'symbol' | 'property' | 'method'
+
+export interface DeprecatedSymbol {
+  name: string
+  kind: DeprecationKind
+  declarationKind: ExtractedKind
+  file: string
+  module: string
+  line?: number
+  message: string
+  replacement?: string
+}
+
+export type ReferenceKind = 'import' | 'export' | 'usage'
+
+export interface SymbolReference {
+  file: string
+  line: number
+  enclosing: string
+  snippet: string
+  kind: ReferenceKind
+}
+
+export interface ReExportEdge {
+  target: string
+  specifier: string
+  line: number
+  /** Pares `[nome exportado, nome original]`; `null` para `export *` */
+  names: Array<[string, string]> | null
+}
+
+/** `export { x }` / `export default x` de um símbolo importado de outro arquivo */
+export interface ForwardedExport {
+  name: string
+  file: string
+  original: string
+}
+
+/**
+ * Exports de um arquivo que não são declarações locais. Persistidos junto com o índice para
+ * resolver cadeias de re-export sem carregar todos os arquivos no projeto.
+ */
+export interface FileExports {
+  reExports: ReExportEdge[]
+  /** Declaração local exportada como `default` */
+  defaultExport?: string
+  forwarded: ForwardedExport[]
+}
+
+interface ExportTarget {
+  file: string
+  name: string
+  chain: string[]
+}
+
 export interface DependencyInfo {
   module: string
   imports: string[]
+  importedBy: string[]
   exports: string[]
   reExportsFrom: string[]
+  fanIn: number
+  fanOut: number
+}
+
+export interface ImportEdge {
+  from: string
+  to: string
+  symbols: string[]
+  typeOnly: boolean
+}
+
+export interface ImportCycle {
+  path: string[]
+  typeOnly: boolean
+}
+
+export interface DependencyAnalysis {
+  modules: DependencyInfo[]
+  moduleEdges: ImportEdge[]
+  fileEdges: ImportEdge[]
+  moduleCycles: ImportCycle[]
+  fileCycles: ImportCycle[]
+}
+
+export interface SocketMember {
+  name: string
+  type: string
+  optional: boolean
+  isMethod: boolean
+  docs?: string
+  factory: string
+  file: string
+  line: number
+  endLine: number
 }
 
+export interface SocketLayer {
+  factory: string
+  file: string
+  line: number
+}
+
+export interface SocketApi {
+  factory: ExtractedType
+  layers: SocketLayer[]
+  members: SocketMember[]
+}
+
+export type EventSiteKind = 'emit' | 'listen' | 'process' | 'other'
+
+export interface EventSite {
+  file: string
+  line: number
+  enclosing: string
+  snippet: string
+  kind: EventSiteKind
+}
+
+export interface EventInfo {
+  name: string
+  docs?: string
+  payload: ExpandedTypeNode
+  sites: EventSite[]
+}
+
+export interface DeclarationRange {
+  name: string
+  /** Tipo da declaração (`function`, `interface`, ...) ou `socket` para membros do socket */
+  kind: string
+  /** Caminho relativo à raiz do repositório (ex: `src/Socket/messages-send.ts`) */
+  file: string
+  /** Primeira linha, incluindo o JSDoc */
+  startLine: number
+  endLine: number
+}
+
+export interface EvaluatedType {
+  expression: string
+  /** Texto do tipo resolvido pelo checker, com aliases da raiz expandidos */
+  text: string
+  expanded: ExpandedTypeNode
+}
+
+export interface SignatureQuery {
+  /** Tipos que a função deve aceitar (cada um em algum parâmetro) */
+  parameters?: string[]
+  /** Tipo que a função deve retornar */
+  returnType?: string
+  propertyName?: string
+  propertyType?: string
+}
+
+export type SignatureMatchRole = 'parameter' | 'return' | 'property'
+
+export interface SignatureMatchDetail {
+  role: SignatureMatchRole
+  name?: string
+  type: string
+  /** Mesmo tipo após resolver aliases; `false` quando apenas compatível (assignable) */
+  exact: boolean
+  /** Retorno casou após desembrulhar `Promise<T>` */
+  viaPromise?: boolean
+}
+
+export interface SignatureMatch {
+  type: ExtractedType
+  score: number
+  signature: string
+  details: SignatureMatchDetail[]
+}
+
+export type UsageSource = 'example' | 'test'
+
+export interface UsageExample {
+  symbol: string
+  /** Caminho relativo à raiz do repositório (ex: Example/example.ts) */
+  file: string
+  line: number
+  source: UsageSource
+  kind: 'call' | 'reference'
+  enclosing: string
+  snippet: string
+}
+
+const USAGE_SNIPPET_MAX_LINES = 10
+
+export type SkeletonTarget = 'function' | 'socket'
+
+export interface UsageSkeleton {
+  symbol: string
+  target: SkeletonTarget
+  code: string
+  /** Erros ao compilar o esqueleto contra o whaileys (`L<linha>: mensagem`); vazio quando compila */
+  diagnostics: string[]
+}
+
+export interface RelatedDeclaration {
+  /** Nome qualificado (ex: MiscMessageGenerationOptions.quoted) */
+  name: string
+  file: string
+  line: number
+  /** Primeira linha da declaração */
+  text: string
+}
+
+export interface ValidationDiagnostic {
+  line: number
+  column: number
+  code: number
+  message: string
+  related?: RelatedDeclaration
+}
+
+export interface VariantProperty {
+  name: string
+  type: string
+  docs?: string
+}
+
+export interface UnionVariant {
+  /** Nome do tipo quando a variante é nomeada, senão `{ chave1, chave2 }` */
+  label: string
+  required: VariantProperty[]
+  optional: VariantProperty[]
+  /** Chaves obrigatórias que só esta variante tem: bastam para identificá-la */
+  exclusiveKeys: string[]
+}
+
+export interface SharedProperty {
+  name: string
+  /** Índices (base 0) das variantes que têm a propriedade */
+  variants: number[]
+}
+
+export interface UnionAnalysis {
+  type: ExtractedType
+  kind: 'union' | 'intersection' | 'object'
+  variants: UnionVariant[]
+  /** Propriedades presentes em todas as variantes com valores literais distintos (ex: `type`) */
+  discriminants: string[]
+  /** Propriedades presentes em todas as variantes */
+  common: string[]
+  /** Propriedades presentes em mais de uma variante, mas não em todas */
+  shared: SharedProperty[]
+}
+
+const SKELETON_MAX_DEPTH = 3
+const SKELETON_MAX_VARIANTS = 8
+
+const EVENT_EMIT_METHODS = new Set(['emit'])
+const EVENT_LISTEN_METHODS = new Set(['on', 'once', 'off', 'removeAllListeners'])
+
+type FunctionLikeDeclaration = FunctionDeclaration | ArrowFunction | FunctionExpression
+
 export class AstParser {
   private project: Project
   private whaileysSrcPath: string
   private cachedTypes: ExtractedType[] | null = null
+  private projectLoaded = false
+  private typesByFile: Map<string, ExtractedType[]> = new Map()
+  private exportsByFile: Map<string, FileExports> = new Map()
+  private searchIndex: { types: ExtractedType[]; index: SearchIndex } | null = null
+  private usageIndex: Map<string, UsageExample[]> | null = null
 
   constructor(whaileysSrcPath: string) {
     this.whaileysSrcPath = whaileysSrcPath
@@ -106,6 +459,7 @@ export class AstParser {
 
   private getModuleName(filePath: string): string {
     const relativePath = path.relative(this.whaileysSrcPath, filePath)
+    if (relativePath.startsWith('..')) return path.basename(path.dirname(filePath))
     const parts = relativePath.split(path.sep)
     if (parts.length > 1) {
       return parts[0]
@@ -117,6 +471,107 @@ export class AstParser {
     return path.relative(this.whaileysSrcPath, filePath).replace(/\\/g, '/')
   }
 
+  private getSourceFile(relativePath: string): SourceFile | undefined {
+    const fullPath = path.join(this.whaileysSrcPath, relativePath)
+    const existing = this.project.getSourceFile(fullPath)
+    if (existing) return existing
+    if (!fs.existsSync(fullPath)) return undefined
+    return this.project.addSourceFileAtPath(fullPath)
+  }
+
+  /**
+   * Localiza o nó de declaração correspondente a um `ExtractedType`, carregando o arquivo
+   * no projeto se ele ainda não foi analisado (ex: índice vindo do cache em disco).
+   */
+  getDeclarationNode(type: ExtractedType): Node | undefined {
+    const sourceFile = this.getSourceFile(type.file)
+    if (!sourceFile) return undefined
+
+    // Nomes qualificados (`ns.Inner.Type`) são resolvidos descendo pelos namespaces
+    const segments = type.name.split('.')
+    const name = segments.pop()!
+    let container: SourceFile | ModuleDeclaration = sourceFile
+    for (const segment of segments) {
+      const next: ModuleDeclaration | undefined = container.getModule(segment)
+      if (!next) return undefined
+      container = next
+    }
+
+    switch (type.kind) {
+      case 'interface':
+        return container.getInterface(name)
+      case 'type':
+        return container.getTypeAlias(name)
+      case 'enum':
+        return container.getEnum(name)
+      case 'function':
+        return container.getFunction(name) ?? container.getVariableDeclaration(name)
+      case 'class':
+        return container.getClass(name)
+      case 'variable':
+        return container.getVariableDeclaration(name)
+      case 'namespace':
+        return container.getModule(name)
+      default:
+        return undefined
+    }
+  }
+
+  /**
+   * Intervalo de linhas (com JSDoc) da declaração de um símbolo exportado ou de um membro
+   * do socket, para acompanhar o histórico do trecho no git.
+   */
+  getDeclarationRange(name: string): DeclarationRange | null {
+    const found = this.searchType(name)
+    if (found?.name === name) {
+      let node = this.getDeclarationNode(found)
+      if (node && Node.isVariableDeclaration(node)) node = node.getVariableStatement() ?? node
+      if (!node) return null
+      return {
+        name: found.name,
+        kind: found.kind,
+        file: this.getRepositoryPath(node.getSourceFile().getFilePath()),
+        startLine: node.getStartLineNumber(true),
+        endLine: node.getEndLineNumber(),
+      }
+    }
+
+    const member = this.getSocketApi()?.members.find((m) => m.name === name)
+    // Membros declarados fora do whaileys (ex: EventEmitter) não têm histórico no repositório
+    if (!member?.line || !fs.existsSync(path.join(this.whaileysSrcPath, member.file))) return null
+    return {
+      name: member.name,
+      kind: 'socket',
+      file: path.posix.join('src', member.file),
+      startLine: member.line,
+      endLine: member.endLine,
+    }
+  }
+
+  private getRepositoryPath(filePath: string): string {
+    return path.relative(path.dirname(this.whaileysSrcPath), filePath).replace(/\\/g, '/')
+  }
+
+  /**
+   * Garante que todos os arquivos de src/ estejam no projeto, necessário para análises
+   * que atravessam arquivos (referências) quando o índice veio do cache.
+   */
+  private ensureProjectLoaded(): void {
+    if (this.projectLoaded) return
+    this.addSourceFiles(['**/*.ts'])
+    const protoDeclarationFile = this.getProtoDeclarationFile()
+    if (fs.existsSync(protoDeclarationFile)) this.project.addSourceFileAtPath(protoDeclarationFile)
+    this.projectLoaded = true
+  }
+
+  /**
+   * Declarações geradas do protocolo (`WAProto/index.d.ts`), fora de src/ mas indexadas
+   * para que nomes como `proto.Message.ImageMessage` sejam encontrados.
+   */
+  private getProtoDeclarationFile(): string {
+    return path.resolve(this.whaileysSrcPath, '..', 'WAProto', 'index.d.ts')
+  }
+
   addSourceFiles(patterns: string[]): void {
     for (const pattern of patterns) {
       this.project.addSourceFilesAtPaths(path.join(this.whaileysSrcPath, pattern))
@@ -129,20 +584,401 @@ export class AstParser {
     return this.extractTypes(sourceFile)
   }
 
+  /**
+   * Restaura o índice persistido. `files` traz todos os arquivos analisados, inclusive os
+   * sem exports, para que não sejam tratados como novos em `findStaleFiles`.
+   */
+  setCachedTypes(types: ExtractedType[], files: Record<string, FileExports>): void {
+    this.typesByFile.clear()
+    this.exportsByFile.clear()
+    for (const [file, exports] of Object.entries(files)) {
+      this.typesByFile.set(file, [])
+      this.exportsByFile.set(file, exports)
+    }
+    for (const type of types) {
+      if (!this.typesByFile.has(type.file)) this.typesByFile.set(type.file, [])
+      this.typesByFile.get(type.file)!.push(type)
+    }
+    this.cachedTypes = types
+  }
+
+  /** Arquivos analisados no índice atual (relativos a src/), com ou sem exports */
+  getIndexedFiles(): Record<string, FileExports> {
+    const files: Record<string, FileExports> = {}
+    for (const file of this.typesByFile.keys()) {
+      files[file] = this.exportsByFile.get(file) ?? { reExports: [], forwarded: [] }
+    }
+    return files
+  }
+
   extractAllTypes(): ExtractedType[] {
     if (this.cachedTypes) return this.cachedTypes
 
-    this.addSourceFiles(['**/*.ts'])
-    const types: ExtractedType[] = []
+    this.ensureProjectLoaded()
+    this.typesByFile.clear()
+    this.exportsByFile.clear()
 
     for (const sourceFile of this.project.getSourceFiles()) {
       const filePath = sourceFile.getFilePath()
-      if (filePath.includes('Tests') || filePath.includes('.d.ts')) continue
-      types.push(...this.extractTypes(sourceFile))
+      if (!this.shouldIndexFile(filePath)) continue
+      const relativePath = this.getRelativePath(filePath)
+      this.typesByFile.set(relativePath, this.extractTypes(sourceFile))
+      this.exportsByFile.set(relativePath, this.getFileExports(sourceFile))
     }
 
-    this.cachedTypes = types
-    return types
+    this.rebuildCachedTypes()
+    this.resolveReExports()
+    return this.cachedTypes!
+  }
+
+  /**
+   * Re-extrai apenas os arquivos informados (caminhos absolutos ou relativos a src/),
+   * removendo do índice os que não existem mais. Retorna quantos arquivos foram reindexados.
+   */
+  refreshFiles(filePaths: string[]): number {
+    this.extractAllTypes()
+    if (filePaths.length > 0) this.usageIndex = null
+    let refreshed = 0
+
+    for (const filePath of filePaths) {
+      const fullPath = path.resolve(this.whaileysSrcPath, filePath)
+      const relativePath = this.getRelativePath(fullPath)
+      const isProtoDeclaration = fullPath === this.getProtoDeclarationFile()
+      if ((relativePath.startsWith('..') && !isProtoDeclaration) || !fullPath.endsWith('.ts')) continue
+      if (!this.shouldIndexFile(fullPath)) continue
+
+      const existing = this.project.getSourceFile(fullPath)
+
+      if (!fs.existsSync(fullPath)) {
+        if (existing) this.project.removeSourceFile(existing)
+        this.exportsByFile.delete(relativePath)
+        if (this.typesByFile.delete(relativePath)) refreshed++
+        continue
+      }
+
+      let sourceFile: SourceFile
+      if (existing) {
+        existing.refreshFromFileSystemSync()
+        sourceFile = existing
+      } else {
+        sourceFile = this.project.addSourceFileAtPath(fullPath)
+      }
+
+      this.typesByFile.set(relativePath, this.extractTypes(sourceFile))
+      this.exportsByFile.set(relativePath, this.getFileExports(sourceFile))
+      refreshed++
+    }
+
+    if (refreshed > 0) {
+      this.rebuildCachedTypes()
+      this.resolveReExports()
+    }
+    return refreshed
+  }
+
+  /**
+   * Lista os arquivos alterados depois de `sinceMs` e os que estão no índice mas foram removidos.
+   */
+  findStaleFiles(sinceMs: number): string[] {
+    const stale: string[] = []
+    const seen = new Set<string>()
+
+    const walk = (dir: string): void => {
+      for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        const fullPath = path.join(dir, entry.name)
+        if (entry.isDirectory()) {
+          if (!entry.name.startsWith('.') && entry.name !== 'node_modules') walk(fullPath)
+          continue
+        }
+        if (!entry.name.endsWith('.ts') || !this.shouldIndexFile(fullPath)) continue
+
+        const relativePath = this.getRelativePath(fullPath)
+        seen.add(relativePath)
+        if (fs.statSync(fullPath).mtimeMs > sinceMs || !this.typesByFile.has(relativePath)) {
+          stale.push(fullPath)
+        }
+      }
+    }
+
+    walk(this.whaileysSrcPath)
+
+    const protoDeclarationFile = this.getProtoDeclarationFile()
+    if (fs.existsSync(protoDeclarationFile)) {
+      const relativePath = this.getRelativePath(protoDeclarationFile)
+      seen.add(relativePath)
+      if (fs.statSync(protoDeclarationFile).mtimeMs > sinceMs || !this.typesByFile.has(relativePath)) {
+        stale.push(protoDeclarationFile)
+      }
+    }
+
+    for (const relativePath of this.typesByFile.keys()) {
+      if (!seen.has(relativePath)) stale.push(path.join(this.whaileysSrcPath, relativePath))
+    }
+
+    return stale
+  }
+
+  /**
+   * Segue as cadeias de `export *` / `export { ... } from` até as declarações concretas,
+   * registrando em cada símbolo os caminhos públicos pelos quais ele é alcançável. Usa apenas
+   * os `FileExports` já extraídos, sem carregar os arquivos no projeto.
+   */
+  private resolveReExports(): void {
+    const edgesByFile = new Map<string, ReExportEdge[]>()
+    const reExportTargets = new Set<string>()
+    for (const relativePath of this.typesByFile.keys()) {
+      const edges = (this.exportsByFile.get(relativePath)?.reExports ?? []).filter(
+        (edge) => !edge.target.startsWith('..') && this.typesByFile.has(edge.target),
+      )
+      edgesByFile.set(relativePath, edges)
+      for (const edge of edges) reExportTargets.add(edge.target)
+    }
+
+    const memo = new Map<string, Map<string, ExportTarget[]>>()
+    const collectExports = (file: string, stack: string[]): Map<string, ExportTarget[]> => {
+      const cached = memo.get(file)
+      if (cached) return cached
+      const exports = new Map<string, ExportTarget[]>()
+      if (stack.includes(file)) return exports
+
+      const add = (name: string, target: ExportTarget): void => {
+        if (!exports.has(name)) exports.set(name, [])
+        exports.get(name)!.push(target)
+      }
+
+      for (const type of this.typesByFile.get(file) ?? []) {
+        if (type.kind === 're-export') continue
+        add(type.name, { file, name: type.name, chain: [file] })
+      }
+      const fileExports = this.exportsByFile.get(file)
+      if (fileExports?.defaultExport) add('default', { file, name: fileExports.defaultExport, chain: [file] })
+      for (const forwarded of fileExports?.forwarded ?? []) {
+        if (forwarded.name === 'default' || !this.typesByFile.has(forwarded.file)) continue
+        add(forwarded.name, { file: forwarded.file, name: forwarded.original, chain: [file, forwarded.file] })
+      }
+
+      for (const edge of edgesByFile.get(file) ?? []) {
+        const targetExports = collectExports(edge.target, [...stack, file])
+        const entries = edge.names
+          ? edge.names.map(([exported, original]) => [exported, targetExports.get(original)] as const)
+          : Array.from(targetExports).filter(([name]) => name !== 'default')
+
+        for (const [name, targets] of entries) {
+          for (const target of targets ?? []) {
+            add(name, { ...target, chain: [file, ...target.chain] })
+          }
+        }
+      }
+
+      memo.set(file, exports)
+      return exports
+    }
+
+    for (const type of this.cachedTypes ?? []) {
+      type.reExportChains = undefined
+      type.exportedAs = undefined
+      type.resolvedExports = undefined
+    }
+
+    const findTypes = (target: ExportTarget): ExtractedType[] =>
+      (this.typesByFile.get(target.file) ?? []).filter(
+        (t) => t.name === target.name && t.kind !== 're-export',
+      )
+
+    for (const [file, edges] of edgesByFile) {
+      if (edges.length === 0 || reExportTargets.has(file)) continue
+
+      for (const [publicName, targets] of collectExports(file, [])) {
+        for (const target of targets) {
+          if (target.chain.length < 2) continue
+          const chain = target.chain.join(' → ')
+          for (const type of findTypes(target)) {
+            type.reExportChains = Array.from(new Set([...(type.reExportChains ?? []), chain]))
+            if (publicName !== type.name && publicName !== 'default') {
+              type.exportedAs = Array.from(new Set([...(type.exportedAs ?? []), publicName]))
+            }
+          }
+        }
+      }
+    }
+
+    for (const [file, edges] of edgesByFile) {
+      for (const edge of edges) {
+        const reExport = (this.typesByFile.get(file) ?? []).find(
+          (t) => t.kind === 're-export' && t.reExportSource === edge.specifier && t.lineNumber === edge.line,
+        )
+        if (!reExport) continue
+
+        const targetExports = collectExports(edge.target, [file])
+        const names = edge.names ? edge.names.map(([, original]) => original) : Array.from(targetExports.keys())
+        reExport.resolvedExports = names
+          .filter((name) => edge.names || name !== 'default')
+          .flatMap((name) =>
+            (targetExports.get(name) ?? []).map((t) => `${t.name} → ${t.file}`),
+          )
+      }
+    }
+
+    this.markPublicApi(edgesByFile, (file) => collectExports(file, []))
+  }
+
+  private getFileExports(sourceFile: SourceFile): FileExports {
+    const forwarded: ForwardedExport[] = []
+    const addForwarded = (name: string, node: Node): void => {
+      const symbol = node.getSymbol()
+      const declaration = (symbol?.getAliasedSymbol() ?? symbol)?.getDeclarations()[0]
+      if (!declaration || !Node.hasName(declaration) || declaration.getSourceFile() === sourceFile) return
+      forwarded.push({
+        name,
+        file: this.getRelativePath(declaration.getSourceFile().getFilePath()),
+        original: declaration.getName(),
+      })
+    }
+
+    for (const exportDecl of sourceFile.getExportDeclarations()) {
+      if (exportDecl.hasModuleSpecifier()) continue
+      for (const named of exportDecl.getNamedExports()) {
+        addForwarded(named.getAliasNode()?.getText() ?? named.getName(), named.getNameNode())
+      }
+    }
+    for (const assignment of sourceFile.getExportAssignments()) {
+      if (!assignment.isExportEquals()) addForwarded('default', assignment.getExpression())
+    }
+
+    return {
+      reExports: this.getReExportEdges(sourceFile),
+      defaultExport: this.getLocalDefaultExportName(sourceFile),
+      forwarded,
+    }
+  }
+
+  private getReExportEdges(sourceFile: SourceFile): ReExportEdge[] {
+    const edges: ReExportEdge[] = []
+
+    for (const exportDecl of sourceFile.getExportDeclarations()) {
+      const specifier = exportDecl.getModuleSpecifierValue()
+      const targetFile = exportDecl.getModuleSpecifierSourceFile()
+      if (!specifier || !targetFile || exportDecl.getNamespaceExport()) continue
+
+      const namedExports = exportDecl.getNamedExports()
+      edges.push({
+        target: this.getRelativePath(targetFile.getFilePath()),
+        specifier,
+        line: exportDecl.getStartLineNumber(),
+        names:
+          namedExports.length > 0
+            ? namedExports.map((ne): [string, string] => [ne.getAliasNode()?.getText() ?? ne.getName(), ne.getName()])
+            : null,
+      })
+    }
+
+    return edges
+  }
+
+  /**
+   * Nome da declaração local exportada como `default` (ex: `const makeWASocket = ...;
+   * export default makeWASocket`). Ignora defaults que apenas repassam um import.
+   */
+  private getLocalDefaultExportName(sourceFile: SourceFile): string | undefined {
+    const symbol = sourceFile.getDefaultExportSymbol()
+    const declaration = (symbol?.getAliasedSymbol() ?? symbol)?.getDeclarations()[0]
+    if (!declaration || !Node.hasName(declaration)) return undefined
+    if (declaration.getSourceFile() !== sourceFile) return undefined
+    return declaration.getName()
+  }
+
+  /**
+   * Marca cada declaração como `public` (alcançável a partir do entry point do pacote)
+   * ou `internal`. Re-exports são públicos quando o arquivo faz parte da cadeia do entry point.
+   */
+  private markPublicApi(
+    edgesByFile: Map<string, ReExportEdge[]>,
+    collectExports: (file: string) => Map<string, ExportTarget[]>,
+  ): void {
+    const entryFile = this.getEntryPointFile()
+    if (!entryFile) {
+      for (const type of this.cachedTypes ?? []) type.visibility = undefined
+      return
+    }
+
+    const publicKeys = new Set<string>()
+    for (const targets of collectExports(entryFile).values()) {
+      for (const target of targets) publicKeys.add(`${target.file}#${target.name}`)
+    }
+    // `export default makeWASocket` importado de outro arquivo não entra nas cadeias de re-export
+    for (const forwarded of this.exportsByFile.get(entryFile)?.forwarded ?? []) {
+      publicKeys.add(`${forwarded.file}#${forwarded.original}`)
+    }
+    // Declarações geradas fora de src/ (`export * from '../WAProto'`) ficam fora das cadeias
+    for (const edge of this.exportsByFile.get(entryFile)?.reExports ?? []) {
+      if (!edge.target.startsWith('..')) continue
+      for (const type of this.typesByFile.get(edge.target) ?? []) publicKeys.add(`${edge.target}#${type.name}`)
+    }
+
+    const publicFiles = new Set<string>([entryFile])
+    const queue = [entryFile]
+    while (queue.length > 0) {
+      for (const edge of edgesByFile.get(queue.shift()!) ?? []) {
+        if (publicFiles.has(edge.target)) continue
+        publicFiles.add(edge.target)
+        queue.push(edge.target)
+      }
+    }
+
+    for (const type of this.cachedTypes ?? []) {
+      // Membros de namespace herdam a visibilidade do namespace raiz
+      const rootName = type.kind === 're-export' ? type.name : type.name.split('.')[0]
+      const isPublic =
+        type.kind === 're-export'
+          ? publicFiles.has(type.file)
+          : publicKeys.has(`${type.file}#${rootName}`)
+      type.visibility = isPublic ? 'public' : 'internal'
+    }
+  }
+
+  /**
+   * Resolve o entry point do pacote whaileys a partir de `types`/`main` do package.json
+   * (ex: `lib/index.js` → `index.ts`), com fallback para `index.ts`.
+   */
+  private getEntryPointFile(): string | undefined {
+    const candidates: string[] = []
+
+    const entry = this.readPackageEntry()
+    if (entry) {
+      candidates.push(
+        entry
+          .replace(/^\.\//, '')
+          .replace(/^(lib|dist|build|src)\//, '')
+          .replace(/(\.d\.ts|\.js)$/, '.ts'),
+      )
+    }
+
+    candidates.push('index.ts')
+    return candidates.find((candidate) => this.typesByFile.has(candidate))
+  }
+
+  private readPackageEntry(): string | undefined {
+    const packageJson = this.readPackageJson()
+    return packageJson?.types ?? packageJson?.main
+  }
+
+  private readPackageJson(): { name?: string; main?: string; types?: string } | undefined {
+    try {
+      const packageJsonPath = path.join(this.whaileysSrcPath, '..', 'package.json')
+      return JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'))
+    } catch {
+      return undefined
+    }
+  }
+
+  private shouldIndexFile(filePath: string): boolean {
+    if (path.resolve(filePath) === this.getProtoDeclarationFile()) return true
+    return !filePath.includes('Tests') && !filePath.includes('.d.ts')
+  }
+
+  private rebuildCachedTypes(): ExtractedType[] {
+    this.cachedTypes = Array.from(this.typesByFile.values()).flat()
+    return this.cachedTypes
   }
 
   private extractTypes(sourceFile: SourceFile): ExtractedType[] {
@@ -180,16 +1016,22 @@ export class AstParser {
       }
     }
 
+    const defaultExportName = this.getLocalDefaultExportName(sourceFile)
     for (const varDecl of sourceFile.getVariableDeclarations()) {
       const varStmt = varDecl.getVariableStatement()
-      if (varStmt?.isExported()) {
-        types.push(this.extractVariable(varDecl, relativePath, moduleName))
+      if (varStmt?.isExported() || varDecl.getName() === defaultExportName) {
+        const callable = this.getCallableInitializer(varDecl)
+        types.push(
+          callable
+            ? this.extractCallableVariable(varDecl, callable, relativePath, moduleName)
+            : this.extractVariable(varDecl, relativePath, moduleName),
+        )
       }
     }
 
     for (const moduleDecl of sourceFile.getModules()) {
       if (moduleDecl.isExported()) {
-        types.push(this.extractNamespace(moduleDecl, relativePath, moduleName))
+        types.push(...this.extractNamespace(moduleDecl, relativePath, moduleName))
       }
     }
 
@@ -204,7 +1046,13 @@ export class AstParser {
   }
 
   private extractTypeParameters(
-    node: InterfaceDeclaration | TypeAliasDeclaration | ClassDeclaration | FunctionDeclaration,
+    node:
+      | InterfaceDeclaration
+      | TypeAliasDeclaration
+      | ClassDeclaration
+      | FunctionDeclaration
+      | ArrowFunction
+      | FunctionExpression,
   ): TypeParameter[] {
     return node.getTypeParameters().map((tp) => ({
       name: tp.getName(),
@@ -213,64 +1061,69 @@ export class AstParser {
     }))
   }
 
-  private extractInterface(
-    iface: InterfaceDeclaration,
-    file: string,
-    module: string,
-  ): ExtractedType {
+  /**
+   * Extrai propriedades, métodos, call signatures e index signatures de uma interface
+   * ou de um type literal (`type SocketConfig = { ... }`).
+   */
+  private extractTypeMembers(node: InterfaceDeclaration | TypeLiteralNode): {
+    properties: PropertyInfo[]
+    methods: PropertyInfo[]
+  } {
     const properties: PropertyInfo[] = []
     const methods: PropertyInfo[] = []
 
-    for (const prop of iface.getProperties()) {
+    for (const prop of node.getProperties()) {
       properties.push({
         name: prop.getName(),
         type: this.simplifyType(prop.getType().getText()),
         optional: prop.hasQuestionToken(),
         readonly: prop.isReadonly(),
         docs: this.getJsDocs(prop),
+        tags: this.getJsDocTags(prop),
         isMethod: false,
         isCallSignature: false,
         isIndexSignature: false,
+        lineNumber: prop.getStartLineNumber(),
       })
     }
 
-    for (const method of iface.getMethods()) {
-      const params = method
-        .getParameters()
-        .map((p) => `${p.getName()}: ${this.simplifyType(p.getType().getText())}`)
+    for (const method of node.getMethods()) {
+      const params = this.formatParameterList(method.getParameters())
       methods.push({
         name: method.getName(),
         type: this.simplifyType(method.getReturnType().getText()),
         optional: method.hasQuestionToken(),
         readonly: false,
         docs: this.getJsDocs(method),
+        tags: this.getJsDocTags(method),
         isMethod: true,
         isCallSignature: false,
         isIndexSignature: false,
+        lineNumber: method.getStartLineNumber(),
         parameters: params,
         returnType: this.simplifyType(method.getReturnType().getText()),
       })
     }
 
-    for (const callSig of iface.getCallSignatures()) {
-      const params = callSig
-        .getParameters()
-        .map((p) => `${p.getName()}: ${this.simplifyType(p.getType().getText())}`)
+    for (const callSig of node.getCallSignatures()) {
+      const params = this.formatParameterList(callSig.getParameters())
       methods.push({
         name: '(call)',
         type: this.simplifyType(callSig.getReturnType().getText()),
         optional: false,
         readonly: false,
         docs: this.getJsDocs(callSig),
+        tags: this.getJsDocTags(callSig),
         isMethod: false,
         isCallSignature: true,
         isIndexSignature: false,
+        lineNumber: callSig.getStartLineNumber(),
         parameters: params,
         returnType: this.simplifyType(callSig.getReturnType().getText()),
       })
     }
 
-    for (const indexSig of iface.getIndexSignatures()) {
+    for (const indexSig of node.getIndexSignatures()) {
       const keyType = indexSig.getKeyType().getText()
       const keyName = indexSig.getKeyName()
       methods.push({
@@ -279,17 +1132,29 @@ export class AstParser {
         optional: false,
         readonly: indexSig.isReadonly(),
         docs: this.getJsDocs(indexSig),
+        tags: this.getJsDocTags(indexSig),
         isMethod: false,
         isCallSignature: false,
         isIndexSignature: true,
+        lineNumber: indexSig.getStartLineNumber(),
       })
     }
 
-    const typeParams = this.extractTypeParameters(iface)
-    const typeParamsStr =
-      typeParams.length > 0 ? `<${typeParams.map((tp) => tp.name).join(', ')}>` : ''
-    const extendsClause = iface.getExtends()
-    const extendsStr =
+    return { properties, methods }
+  }
+
+  private extractInterface(
+    iface: InterfaceDeclaration,
+    file: string,
+    module: string,
+  ): ExtractedType {
+    const { properties, methods } = this.extractTypeMembers(iface)
+
+    const typeParams = this.extractTypeParameters(iface)
+    const typeParamsStr =
+      typeParams.length > 0 ? `<${typeParams.map((tp) => tp.name).join(', ')}>` : ''
+    const extendsClause = iface.getExtends()
+    const extendsStr =
       extendsClause.length > 0
         ? ` extends ${extendsClause.map((e) => e.getText()).join(', ')}`
         : ''
@@ -306,6 +1171,7 @@ export class AstParser {
       typeParameters: typeParams,
       extends: extendsClause.map((e) => e.getText()),
       docs: this.getJsDocs(iface),
+      tags: this.getJsDocTags(iface),
       lineNumber: iface.getStartLineNumber(),
     }
   }
@@ -319,6 +1185,8 @@ export class AstParser {
     const typeParamsStr =
       typeParams.length > 0 ? `<${typeParams.map((tp) => tp.name).join(', ')}>` : ''
     const typeText = this.simplifyType(typeAlias.getType().getText())
+    const typeNode = typeAlias.getTypeNode()
+    const members = Node.isTypeLiteral(typeNode) ? this.extractTypeMembers(typeNode) : undefined
 
     return {
       name: typeAlias.getName(),
@@ -328,8 +1196,11 @@ export class AstParser {
       module,
       signature: `type ${typeAlias.getName()}${typeParamsStr} = ${typeText}`,
       fullSignature: `type ${typeAlias.getName()}${typeParamsStr} = ${typeAlias.getType().getText()}`,
+      properties: members?.properties,
+      methods: members?.methods,
       typeParameters: typeParams,
       docs: this.getJsDocs(typeAlias),
+      tags: this.getJsDocTags(typeAlias),
       lineNumber: typeAlias.getStartLineNumber(),
     }
   }
@@ -351,6 +1222,7 @@ export class AstParser {
       signature: `enum ${enumDecl.getName()} { ${members.slice(0, 5).join(', ')}${members.length > 5 ? `, ... (+${members.length - 5})` : ''} }`,
       members,
       docs: this.getJsDocs(enumDecl),
+      tags: this.getJsDocTags(enumDecl),
       lineNumber: enumDecl.getStartLineNumber(),
     }
   }
@@ -363,11 +1235,25 @@ export class AstParser {
     const typeParams = this.extractTypeParameters(funcDecl)
     const typeParamsStr =
       typeParams.length > 0 ? `<${typeParams.map((tp) => tp.name).join(', ')}>` : ''
-    const params = funcDecl.getParameters().map((p) => {
-      const optional = p.hasQuestionToken() ? '?' : ''
-      return `${p.getName()}${optional}: ${this.simplifyType(p.getType().getText())}`
+    const overloads = funcDecl.getOverloads().map((overload) => {
+      const overloadTypeParams = this.extractTypeParameters(overload)
+      const overloadTypeParamsStr =
+        overloadTypeParams.length > 0 ? `<${overloadTypeParams.map((tp) => tp.name).join(', ')}>` : ''
+      const parameters = this.extractParameters(overload.getParameters())
+      const returnType = this.getReturnTypeText(overload)
+      return {
+        signature: `function ${funcDecl.getName()}${overloadTypeParamsStr}(${this.formatParameters(parameters)}): ${this.truncateType(returnType)}`,
+        parameters,
+        returnType,
+        docs: this.getJsDocs(overload),
+      }
     })
-    const returnType = this.simplifyType(funcDecl.getReturnType().getText())
+    const parameters = overloads[0]?.parameters ?? this.extractParameters(funcDecl.getParameters())
+    const returnType = overloads[0]?.returnType ?? this.getReturnTypeText(funcDecl)
+    const signature =
+      overloads.length > 0
+        ? overloads.map((o) => o.signature).join('\n')
+        : `function ${funcDecl.getName()}${typeParamsStr}(${this.formatParameters(parameters)}): ${this.truncateType(returnType)}`
 
     return {
       name: funcDecl.getName() || 'anonymous',
@@ -375,13 +1261,129 @@ export class AstParser {
       exported: true,
       file,
       module,
-      signature: `function ${funcDecl.getName()}${typeParamsStr}(${params.join(', ')}): ${returnType}`,
+      signature,
       typeParameters: typeParams,
+      parameters,
+      returnType,
+      overloads: overloads.length > 0 ? overloads : undefined,
       docs: this.getJsDocs(funcDecl),
+      tags: this.getJsDocTags(funcDecl),
       lineNumber: funcDecl.getStartLineNumber(),
     }
   }
 
+  /**
+   * Variáveis inicializadas com arrow function ou function expression
+   * (`export const makeWASocket = (config) => ...`) são registradas como funções.
+   */
+  private extractCallableVariable(
+    varDecl: VariableDeclaration,
+    func: ArrowFunction | FunctionExpression,
+    file: string,
+    module: string,
+  ): ExtractedType {
+    const name = varDecl.getName()
+    const typeParams = this.extractTypeParameters(func)
+    const typeParamsStr =
+      typeParams.length > 0 ? `<${typeParams.map((tp) => tp.name).join(', ')}>` : ''
+    const parameters = this.extractParameters(func.getParameters())
+    const returnType = this.getReturnTypeText(func)
+
+    const varStmt = varDecl.getVariableStatement()
+    const declarationKind = varStmt?.getDeclarationKind() || 'const'
+    const asyncPrefix = func.isAsync() ? 'async ' : ''
+
+    return {
+      name,
+      kind: 'function',
+      exported: true,
+      file,
+      module,
+      signature: `${declarationKind} ${name} = ${asyncPrefix}${typeParamsStr}(${this.formatParameters(parameters)}) => ${this.truncateType(returnType)}`,
+      typeParameters: typeParams,
+      parameters,
+      returnType,
+      docs: varStmt ? this.getJsDocs(varStmt) : undefined,
+      tags: varStmt ? this.getJsDocTags(varStmt) : undefined,
+      lineNumber: varDecl.getStartLineNumber(),
+    }
+  }
+
+  private getCallableInitializer(
+    varDecl: VariableDeclaration,
+  ): ArrowFunction | FunctionExpression | undefined {
+    let initializer = varDecl.getInitializer()
+    while (
+      initializer &&
+      (Node.isParenthesizedExpression(initializer) ||
+        Node.isAsExpression(initializer) ||
+        Node.isSatisfiesExpression(initializer))
+    ) {
+      initializer = initializer.getExpression()
+    }
+    if (Node.isArrowFunction(initializer) || Node.isFunctionExpression(initializer)) {
+      return initializer
+    }
+    return undefined
+  }
+
+  private extractParameters(params: ParameterDeclaration[]): ParameterInfo[] {
+    return params.map((p) => {
+      const initializer = p.getInitializer()
+      return {
+        name: p.getName(),
+        type: this.simplifyType(p.getTypeNode()?.getText() ?? p.getType().getText(p)),
+        optional: p.hasQuestionToken() || initializer !== undefined,
+        defaultValue: initializer?.getText(),
+        rest: p.isRestParameter() || undefined,
+      }
+    })
+  }
+
+  /**
+   * Quando há overloads, apenas as assinaturas de overload são chamáveis; a implementação fica de fora.
+   */
+  private getCallableDeclarations<T extends { getOverloads(): T[] }>(node: T): T[] {
+    const overloads = node.getOverloads()
+    return overloads.length > 0 ? overloads : [node]
+  }
+
+  private formatParameterList(params: ParameterDeclaration[]): string[] {
+    return this.extractParameters(params).map((p) => this.formatParameters([p]))
+  }
+
+  /**
+   * Membros privados ficam de fora; `protected` é extraído e rotulado para quem for estender a classe.
+   */
+  private getMemberScope(scope: string | undefined, name?: string): MemberScope | undefined {
+    if (scope === 'private' || name?.startsWith('#')) return undefined
+    return scope === 'protected' ? 'protected' : 'public'
+  }
+
+  private formatParameters(params: ParameterInfo[]): string {
+    return params
+      .map((p) => {
+        const rest = p.rest ? '...' : ''
+        const optional = p.optional && !p.defaultValue ? '?' : ''
+        const defaultValue = p.defaultValue ? ` = ${p.defaultValue}` : ''
+        return `${rest}${p.name}${optional}: ${p.type}${defaultValue}`
+      })
+      .join(', ')
+  }
+
+  private truncateType(type: string, maxLength = 150): string {
+    return type.length > maxLength ? type.substring(0, maxLength) + '...' : type
+  }
+
+  /**
+   * Usa o tipo de retorno declarado quando existir; caso contrário, o inferido pelo checker.
+   */
+  private getReturnTypeText(func: FunctionDeclaration | ArrowFunction | FunctionExpression): string {
+    const returnTypeNode = func.getReturnTypeNode()
+    if (returnTypeNode) return this.simplifyType(returnTypeNode.getText())
+    return this.simplifyType(func.getReturnType().getText(func))
+  }
+
   private extractClass(
     classDecl: ClassDeclaration,
     file: string,
@@ -390,30 +1392,74 @@ export class AstParser {
     const methods: PropertyInfo[] = []
     const properties: PropertyInfo[] = []
 
-    for (const method of classDecl.getMethods()) {
-      const isPublic = method.getScope() === 'public' || !method.getScope()
-      if (!isPublic) continue
+    for (const ctor of classDecl.getConstructors()) {
+      for (const signature of this.getCallableDeclarations(ctor)) {
+        const scope = this.getMemberScope(signature.getScope())
+        if (!scope) continue
+
+        methods.push({
+          name: 'constructor',
+          type: classDecl.getName() || 'AnonymousClass',
+          optional: false,
+          readonly: false,
+          docs: this.getJsDocs(signature),
+          tags: this.getJsDocTags(signature),
+          isMethod: true,
+          isCallSignature: false,
+          isIndexSignature: false,
+          lineNumber: signature.getStartLineNumber(),
+          parameters: this.formatParameterList(signature.getParameters()),
+          scope,
+          isConstructor: true,
+        })
+      }
+
+      for (const param of ctor.getParameters()) {
+        const paramScope = param.isParameterProperty() ? this.getMemberScope(param.getScope()) : undefined
+        if (!paramScope) continue
+
+        properties.push({
+          name: param.getName(),
+          type: this.simplifyType(param.getTypeNode()?.getText() ?? param.getType().getText(param)),
+          optional: param.hasQuestionToken() || param.hasInitializer(),
+          readonly: param.isReadonly(),
+          docs: this.getJsDocTags(ctor)?.params?.find((p) => p.name === param.getName())?.description,
+          isMethod: false,
+          isCallSignature: false,
+          isIndexSignature: false,
+          lineNumber: param.getStartLineNumber(),
+          scope: paramScope,
+          isParameterProperty: true,
+        })
+      }
+    }
+
+    for (const method of classDecl.getMethods().flatMap((m) => this.getCallableDeclarations(m))) {
+      const scope = this.getMemberScope(method.getScope(), method.getName())
+      if (!scope) continue
 
-      const params = method
-        .getParameters()
-        .map((p) => `${p.getName()}: ${this.simplifyType(p.getType().getText())}`)
       methods.push({
         name: method.getName(),
         type: this.simplifyType(method.getReturnType().getText()),
-        optional: false,
+        optional: method.hasQuestionToken(),
         readonly: false,
         docs: this.getJsDocs(method),
+        tags: this.getJsDocTags(method),
         isMethod: true,
         isCallSignature: false,
         isIndexSignature: false,
-        parameters: params,
+        lineNumber: method.getStartLineNumber(),
+        parameters: this.formatParameterList(method.getParameters()),
         returnType: this.simplifyType(method.getReturnType().getText()),
+        scope,
+        isStatic: method.isStatic() || undefined,
+        isAbstract: method.isAbstract() || undefined,
       })
     }
 
     for (const prop of classDecl.getProperties()) {
-      const isPublic = prop.getScope() === 'public' || !prop.getScope()
-      if (!isPublic) continue
+      const scope = this.getMemberScope(prop.getScope(), prop.getName())
+      if (!scope) continue
 
       properties.push({
         name: prop.getName(),
@@ -421,19 +1467,76 @@ export class AstParser {
         optional: prop.hasQuestionToken(),
         readonly: prop.isReadonly(),
         docs: this.getJsDocs(prop),
+        tags: this.getJsDocTags(prop),
         isMethod: false,
         isCallSignature: false,
         isIndexSignature: false,
+        lineNumber: prop.getStartLineNumber(),
+        scope,
+        isStatic: prop.isStatic() || undefined,
+        isAbstract: prop.isAbstract() || undefined,
       })
     }
 
+    const accessors = new Map<string, PropertyInfo>()
+    for (const getter of classDecl.getGetAccessors()) {
+      const scope = this.getMemberScope(getter.getScope(), getter.getName())
+      if (!scope) continue
+
+      accessors.set(getter.getName(), {
+        name: getter.getName(),
+        type: this.simplifyType(getter.getReturnType().getText()),
+        optional: false,
+        readonly: true,
+        docs: this.getJsDocs(getter),
+        tags: this.getJsDocTags(getter),
+        isMethod: false,
+        isCallSignature: false,
+        isIndexSignature: false,
+        lineNumber: getter.getStartLineNumber(),
+        scope,
+        isStatic: getter.isStatic() || undefined,
+        isAbstract: getter.isAbstract() || undefined,
+        accessor: 'get',
+      })
+    }
+    for (const setter of classDecl.getSetAccessors()) {
+      const scope = this.getMemberScope(setter.getScope(), setter.getName())
+      if (!scope) continue
+
+      const existing = accessors.get(setter.getName())
+      if (existing) {
+        existing.readonly = false
+        existing.accessor = 'get/set'
+        continue
+      }
+      const valueParam = setter.getParameters()[0]
+      accessors.set(setter.getName(), {
+        name: setter.getName(),
+        type: valueParam ? this.simplifyType(valueParam.getType().getText()) : 'unknown',
+        optional: false,
+        readonly: false,
+        docs: this.getJsDocs(setter),
+        tags: this.getJsDocTags(setter),
+        isMethod: false,
+        isCallSignature: false,
+        isIndexSignature: false,
+        lineNumber: setter.getStartLineNumber(),
+        scope,
+        isStatic: setter.isStatic() || undefined,
+        isAbstract: setter.isAbstract() || undefined,
+        accessor: 'set',
+      })
+    }
+    properties.push(...accessors.values())
+
     const typeParams = this.extractTypeParameters(classDecl)
     const typeParamsStr =
       typeParams.length > 0 ? `<${typeParams.map((tp) => tp.name).join(', ')}>` : ''
     const extendsClause = classDecl.getExtends()
     const implementsClause = classDecl.getImplements()
 
-    let signature = `class ${classDecl.getName()}${typeParamsStr}`
+    let signature = `${classDecl.isAbstract() ? 'abstract ' : ''}class ${classDecl.getName()}${typeParamsStr}`
     if (extendsClause) {
       signature += ` extends ${extendsClause.getText()}`
     }
@@ -454,6 +1557,7 @@ export class AstParser {
       extends: extendsClause ? [extendsClause.getText()] : undefined,
       implements: implementsClause.length > 0 ? implementsClause.map((i) => i.getText()) : undefined,
       docs: this.getJsDocs(classDecl),
+      tags: this.getJsDocTags(classDecl),
       lineNumber: classDecl.getStartLineNumber(),
     }
   }
@@ -485,47 +1589,85 @@ export class AstParser {
       signature: `${declarationKind} ${name}: ${type}`,
       value,
       docs: varStmt ? this.getJsDocs(varStmt) : undefined,
+      tags: varStmt ? this.getJsDocTags(varStmt) : undefined,
       lineNumber: varDecl.getStartLineNumber(),
     }
   }
 
+  /**
+   * Extrai o namespace e, recursivamente, cada declaração visível dentro dele como um
+   * `ExtractedType` próprio com nome qualificado (ex: `proto.Message.ImageMessage`).
+   */
   private extractNamespace(
     moduleDecl: ModuleDeclaration,
     file: string,
     module: string,
-  ): ExtractedType {
+    parentName?: string,
+  ): ExtractedType[] {
+    const qualifiedName = parentName ? `${parentName}.${moduleDecl.getName()}` : moduleDecl.getName()
+    const isAmbient = moduleDecl.isAmbient()
+    const isVisible = (node: { isExported(): boolean }) => isAmbient || node.isExported()
+    const qualify = (type: ExtractedType): ExtractedType => ({
+      ...type,
+      name: `${qualifiedName}.${type.name}`,
+    })
+
     const members: string[] = []
+    const nested: ExtractedType[] = []
 
     for (const iface of moduleDecl.getInterfaces()) {
       members.push(`interface ${iface.getName()}`)
+      if (isVisible(iface)) nested.push(qualify(this.extractInterface(iface, file, module)))
     }
     for (const typeAlias of moduleDecl.getTypeAliases()) {
       members.push(`type ${typeAlias.getName()}`)
+      if (isVisible(typeAlias)) nested.push(qualify(this.extractTypeAlias(typeAlias, file, module)))
     }
     for (const enumDecl of moduleDecl.getEnums()) {
       members.push(`enum ${enumDecl.getName()}`)
+      if (isVisible(enumDecl)) nested.push(qualify(this.extractEnum(enumDecl, file, module)))
     }
     for (const func of moduleDecl.getFunctions()) {
       members.push(`function ${func.getName()}`)
+      if (isVisible(func)) nested.push(qualify(this.extractFunction(func, file, module)))
     }
     for (const cls of moduleDecl.getClasses()) {
       members.push(`class ${cls.getName()}`)
+      if (isVisible(cls)) nested.push(qualify(this.extractClass(cls, file, module)))
+    }
+    for (const varDecl of moduleDecl.getVariableDeclarations()) {
+      members.push(`const ${varDecl.getName()}`)
+      const varStmt = varDecl.getVariableStatement()
+      if (varStmt && !isVisible(varStmt)) continue
+      const callable = this.getCallableInitializer(varDecl)
+      nested.push(
+        qualify(
+          callable
+            ? this.extractCallableVariable(varDecl, callable, file, module)
+            : this.extractVariable(varDecl, file, module),
+        ),
+      )
     }
     for (const nestedNs of moduleDecl.getModules()) {
       members.push(`namespace ${nestedNs.getName()}`)
+      if (isVisible(nestedNs)) nested.push(...this.extractNamespace(nestedNs, file, module, qualifiedName))
     }
 
-    return {
-      name: moduleDecl.getName(),
-      kind: 'namespace',
-      exported: true,
-      file,
-      module,
-      signature: `namespace ${moduleDecl.getName()} { /* ${members.length} members */ }`,
-      members,
-      docs: this.getJsDocs(moduleDecl),
-      lineNumber: moduleDecl.getStartLineNumber(),
-    }
+    return [
+      {
+        name: qualifiedName,
+        kind: 'namespace',
+        exported: true,
+        file,
+        module,
+        signature: `namespace ${qualifiedName} { /* ${members.length} members */ }`,
+        members,
+        docs: this.getJsDocs(moduleDecl),
+        tags: this.getJsDocTags(moduleDecl),
+        lineNumber: moduleDecl.getStartLineNumber(),
+      },
+      ...nested,
+    ]
   }
 
   private extractReExport(
@@ -583,18 +1725,64 @@ export class AstParser {
   }
 
   private getJsDocs(node: Node): string | undefined {
-    const nodeWithDocs = node as unknown as { getJsDocs?: () => Array<{ getDescription?: () => string; getText?: () => string }> }
-    if (typeof nodeWithDocs.getJsDocs === 'function') {
-      const jsDocs = nodeWithDocs.getJsDocs()
-      if (jsDocs && jsDocs.length > 0) {
-        return jsDocs
-          .map((d) => d.getDescription?.() || d.getText?.())
-          .filter(Boolean)
-          .join('\n')
-          .trim()
+    if (!Node.isJSDocable(node)) return undefined
+    const jsDocs = node.getJsDocs()
+    if (jsDocs.length === 0) return undefined
+    const docs = jsDocs
+      .map((d) => d.getDescription().trim() || (d.getTags().length === 0 ? d.getText() : ''))
+      .filter(Boolean)
+      .join('\n')
+      .trim()
+    return docs || undefined
+  }
+
+  /**
+   * Extrai as tags JSDoc relevantes (`@param`, `@returns`, `@deprecated`, `@example`,
+   * `@see`, `@default`) de forma estruturada.
+   */
+  private getJsDocTags(node: Node): JsDocTags | undefined {
+    if (!Node.isJSDocable(node)) return undefined
+
+    const tags: JsDocTags = {}
+    for (const jsDoc of node.getJsDocs()) {
+      for (const tag of jsDoc.getTags()) {
+        const comment = (tag.getCommentText() ?? '').trim()
+        switch (tag.getTagName()) {
+          case 'param':
+            if (Node.isJSDocParameterTag(tag)) {
+              tags.params = [...(tags.params ?? []), { name: tag.getName(), description: comment.replace(/^-\s*/, '') }]
+            }
+            break
+          case 'returns':
+          case 'return':
+            tags.returns = comment
+            break
+          case 'deprecated':
+            tags.deprecated = comment
+            break
+          case 'example':
+            tags.examples = [...(tags.examples ?? []), comment]
+            break
+          case 'see': {
+            const reference =
+              comment ||
+              tag
+                .getText()
+                .replace(/^@see/, '')
+                .replace(/^\s*\*/gm, '')
+                .trim()
+            tags.see = [...(tags.see ?? []), reference]
+            break
+          }
+          case 'default':
+          case 'defaultValue':
+            tags.defaultValue = comment
+            break
+        }
       }
     }
-    return undefined
+
+    return Object.keys(tags).length > 0 ? tags : undefined
   }
 
   searchType(typeName: string): ExtractedType | undefined {
@@ -602,37 +1790,27 @@ export class AstParser {
     const lowerName = typeName.toLowerCase()
     return (
       allTypes.find((t) => t.name.toLowerCase() === lowerName) ||
+      allTypes.find((t) => t.exportedAs?.some((alias) => alias.toLowerCase() === lowerName)) ||
       allTypes.find((t) => t.name.toLowerCase().includes(lowerName))
     )
   }
 
   fuzzySearch(query: string, maxResults = 20): ExtractedType[] {
-    const allTypes = this.extractAllTypes()
-    const lowerQuery = query.toLowerCase()
-    const words = lowerQuery.split(/\s+/)
-
-    const scored = allTypes.map((type) => {
-      let score = 0
-      const lowerName = type.name.toLowerCase()
-      const lowerDocs = (type.docs || '').toLowerCase()
-
-      if (lowerName === lowerQuery) score += 100
-      else if (lowerName.startsWith(lowerQuery)) score += 50
-      else if (lowerName.includes(lowerQuery)) score += 25
-
-      for (const word of words) {
-        if (lowerName.includes(word)) score += 10
-        if (lowerDocs.includes(word)) score += 5
-      }
+    return this.search(query, maxResults).map((hit) => hit.type)
+  }
 
-      return { type, score }
-    })
+  /** Busca ranqueada (BM25 + tolerância a typos) com os trechos que explicam cada resultado */
+  search(query: string, maxResults = 20): SearchHit[] {
+    return this.getSearchIndex().search(query, maxResults)
+  }
 
-    return scored
-      .filter((s) => s.score > 0)
-      .sort((a, b) => b.score - a.score)
-      .slice(0, maxResults)
-      .map((s) => s.type)
+  /** O índice é refeito sempre que a lista de tipos em cache é substituída */
+  private getSearchIndex(): SearchIndex {
+    const types = this.extractAllTypes()
+    if (this.searchIndex?.types !== types) {
+      this.searchIndex = { types, index: new SearchIndex(types) }
+    }
+    return this.searchIndex.index
   }
 
   getTypesFromModule(moduleName: string): ExtractedType[] {
@@ -763,28 +1941,1418 @@ export class AstParser {
     return { type, parents, children }
   }
 
-  analyzeDependencies(): DependencyInfo[] {
+  /**
+   * Lista declarações, propriedades e métodos marcados com `@deprecated`.
+   */
+  getDeprecations(): DeprecatedSymbol[] {
+    const deprecations: DeprecatedSymbol[] = []
+
+    for (const type of this.extractAllTypes()) {
+      if (type.kind === 're-export') continue
+
+      if (type.tags?.deprecated !== undefined) {
+        deprecations.push({
+          name: type.name,
+          kind: 'symbol',
+          declarationKind: type.kind,
+          file: type.file,
+          module: type.module,
+          line: type.lineNumber,
+          message: type.tags.deprecated,
+          replacement: getDeprecationReplacement(type.tags),
+        })
+      }
+
+      for (const member of [...(type.properties ?? []), ...(type.methods ?? [])]) {
+        if (member.tags?.deprecated === undefined) continue
+        deprecations.push({
+          name: `${type.name}.${member.name}`,
+          kind: member.isMethod ? 'method' : 'property',
+          declarationKind: type.kind,
+          file: type.file,
+          module: type.module,
+          line: member.lineNumber ?? type.lineNumber,
+          message: member.tags.deprecated,
+          replacement: getDeprecationReplacement(member.tags),
+        })
+      }
+    }
+
+    return deprecations
+  }
+
+  /**
+   * Expande recursivamente um tipo, incorporando cada tipo do whaileys referenciado
+   * pelas propriedades até `depth` níveis. Ciclos são marcados e não reexpandidos.
+   */
+  expandType(typeName: string, depth = 3, maxProperties = 25): ExpandedTypeNode | null {
+    const found = this.searchType(typeName)
+    if (!found) return null
+
+    const node = this.getDeclarationNode(found)
+    if (!node) return null
+
+    let rootType = node.getType()
+    if (found.kind === 'function' || found.kind === 'variable') {
+      const callSignature = rootType.getCallSignatures()[0]
+      if (callSignature) rootType = callSignature.getReturnType()
+    }
+
+    const root = this.expandTypeNode(found.name, rootType, node, depth, maxProperties, [])
+    root.type = found.name
+    root.docs = found.docs
+    root.file = found.file
+    root.reference = found.name
+    return root
+  }
+
+  private expandTypeNode(
+    name: string,
+    type: Type,
+    location: Node,
+    depth: number,
+    maxProperties: number,
+    ancestors: string[],
+  ): ExpandedTypeNode {
+    const result: ExpandedTypeNode = {
+      name,
+      type: this.simplifyType(type.getText(location)),
+    }
+
+    const target = this.getExpansionTarget(type)
+    if (!target) return result
+
+    const reference = this.getTypeReferenceName(target)
+    if (reference) {
+      result.reference = reference
+      result.file = this.getTypeDeclarationFile(target)
+    }
+
+    const key = target.getText()
+    if (ancestors.includes(key)) {
+      result.circular = true
+      return result
+    }
+    if (depth <= 0) return result
+
+    const nextAncestors = [...ancestors, key]
+
+    if (target.isUnion()) {
+      result.children = target
+        .getUnionTypes()
+        .filter((t) => !t.isNull() && !t.isUndefined())
+        .map((t) => this.expandTypeNode('|', t, location, depth, maxProperties, nextAncestors))
+      return result
+    }
+
+    const properties = target.getProperties()
+    result.children = properties.slice(0, maxProperties).map((prop) => {
+      const propType = prop.getTypeAtLocation(location)
+      const declaration = prop.getDeclarations()[0]
+      const child = this.expandTypeNode(
+        prop.getName(),
+        propType,
+        location,
+        depth - 1,
+        maxProperties,
+        nextAncestors,
+      )
+      const declaredType = Node.isTyped(declaration) ? declaration.getTypeNode()?.getText() : undefined
+      if (declaredType) child.type = this.simplifyType(declaredType)
+      child.optional = prop.isOptional()
+      child.docs = declaration ? this.getJsDocs(declaration) : undefined
+      child.deprecated = declaration ? this.getJsDocTags(declaration)?.deprecated : undefined
+      return child
+    })
+
+    if (properties.length > maxProperties) {
+      result.omittedProperties = properties.length - maxProperties
+    }
+
+    return result
+  }
+
+  private getExpansionTarget(type: Type): Type | undefined {
+    if (type.isArray()) {
+      const elementType = type.getArrayElementType()
+      return elementType ? this.getExpansionTarget(elementType) : undefined
+    }
+
+    if (type.isUnion() && !type.isBoolean() && !type.isEnum()) {
+      const members = type.getUnionTypes().filter((t) => !t.isNull() && !t.isUndefined())
+      if (members.length === 1) return this.getExpansionTarget(members[0])
+      return members.some((t) => this.getExpansionTarget(t)) ? type : undefined
+    }
+
+    if (!type.isObject() && !type.isIntersection()) return undefined
+    if (type.isTuple()) return undefined
+    if (type.getCallSignatures().length > 0 || type.getProperties().length === 0) return undefined
+    return this.isWhaileysType(type) ? type : undefined
+  }
+
+  private isWhaileysType(type: Type): boolean {
+    if (type.isIntersection()) {
+      return type.getIntersectionTypes().some((t) => this.isWhaileysType(t))
+    }
+    const symbol = type.getAliasSymbol() ?? type.getSymbol()
+    if ((symbol?.getDeclarations() ?? []).some((decl) => this.isWhaileysNode(decl))) return true
+    return type
+      .getProperties()
+      .some((prop) => prop.getDeclarations().some((decl) => this.isWhaileysNode(decl)))
+  }
+
+  private isWhaileysNode(node: Node): boolean {
+    const filePath = path.normalize(node.getSourceFile().getFilePath())
+    return filePath.startsWith(path.dirname(this.whaileysSrcPath)) && !filePath.includes('node_modules')
+  }
+
+  private getTypeReferenceName(type: Type): string | undefined {
+    const symbol = type.getAliasSymbol() ?? type.getSymbol()
+    const name = symbol?.getName()
+    if (!name || name.startsWith('__')) return undefined
+    if (!symbol!.getDeclarations().some((decl) => this.isWhaileysNode(decl))) return undefined
+    return name
+  }
+
+  private getTypeDeclarationFile(type: Type): string | undefined {
+    const symbol = type.getAliasSymbol() ?? type.getSymbol()
+    const declaration = symbol?.getDeclarations()[0]
+    if (!declaration) return undefined
+    const filePath = declaration.getSourceFile().getFilePath()
+    const relativePath = this.getRelativePath(filePath)
+    if (!relativePath.startsWith('..')) return relativePath
+    return path.relative(path.dirname(this.whaileysSrcPath), filePath).replace(/\\/g, '/')
+  }
+
+  /**
+   * Lista todos os pontos de src/ que referenciam o símbolo, usando `findReferences`
+   * do language service sobre o nó de declaração.
+   */
+  findReferences(
+    typeName: string,
+  ): { type: ExtractedType; references: SymbolReference[] } | null {
+    const found = this.searchType(typeName)
+    if (!found) return null
+
+    const node = this.getDeclarationNode(found)
+    const nameNode = node && Node.hasName(node) ? node.getNameNode() : undefined
+    if (!nameNode || !Node.isReferenceFindable(nameNode)) {
+      return { type: found, references: [] }
+    }
+
+    this.ensureProjectLoaded()
+    const references: SymbolReference[] = []
+    const seen = new Set<string>()
+
+    for (const referencedSymbol of nameNode.findReferences()) {
+      for (const entry of referencedSymbol.getReferences()) {
+        if (entry.isDefinition()) continue
+
+        const refNode = entry.getNode()
+        const filePath = entry.getSourceFile().getFilePath()
+        const relativePath = this.getRelativePath(filePath)
+        if (relativePath.startsWith('..')) continue
+
+        const line = refNode.getStartLineNumber()
+        const key = `${relativePath}:${line}:${refNode.getStart()}`
+        if (seen.has(key)) continue
+        seen.add(key)
+
+        const lineText = entry.getSourceFile().getFullText().split('\n')[line - 1] ?? ''
+        references.push({
+          file: relativePath,
+          line,
+          enclosing: this.getEnclosingName(refNode),
+          snippet: lineText.trim().substring(0, 160),
+          kind: this.getReferenceKind(refNode),
+        })
+      }
+    }
+
+    references.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line)
+    return { type: found, references }
+  }
+
+  private getReferenceKind(node: Node): ReferenceKind {
+    if (node.getFirstAncestor((a) => Node.isImportDeclaration(a) || Node.isImportEqualsDeclaration(a))) {
+      return 'import'
+    }
+    if (node.getFirstAncestor((a) => Node.isExportDeclaration(a) || Node.isExportAssignment(a))) {
+      return 'export'
+    }
+    return 'usage'
+  }
+
+  private getEnclosingName(node: Node): string {
+    const names: string[] = []
+
+    for (const ancestor of node.getAncestors()) {
+      if (Node.isFunctionDeclaration(ancestor) || Node.isMethodDeclaration(ancestor)) {
+        names.unshift(ancestor.getName() ?? 'anonymous')
+      } else if (Node.isClassDeclaration(ancestor)) {
+        names.unshift(ancestor.getName() ?? 'AnonymousClass')
+      } else if (Node.isArrowFunction(ancestor) || Node.isFunctionExpression(ancestor)) {
+        const parent = ancestor.getParent()
+        if (Node.isVariableDeclaration(parent) || Node.isPropertyAssignment(parent)) {
+          names.unshift(parent.getName())
+        } else if (Node.isCallExpression(parent)) {
+          names.unshift(`${parent.getExpression().getText()}()`)
+        }
+      }
+    }
+
+    return names.length > 0 ? names.join(' › ') : '(top-level)'
+  }
+
+  /**
+   * Avalia uma expressão de tipo arbitrária no contexto do whaileys (ex:
+   * `Parameters<ReturnType<typeof makeWASocket>['sendMessage']>[2]`) e expande o resultado
+   * como em `expandType`, mostrando tipos derivados e genéricos já resolvidos.
+   */
+  evaluateTypeExpression(expression: string, depth = 2, maxProperties = 25): EvaluatedType {
+    this.extractAllTypes()
+    return this.withResolvedTypes([expression], (resolved, scratch) => {
+      const type = resolved.get(expression)!
+      const location = scratch.getTypeAliases()[0]
+      const text = type.getText(location, ts.TypeFormatFlags.NoTruncation | ts.TypeFormatFlags.InTypeAlias)
+      const expanded = this.expandTypeNode(expression, type, location, depth, maxProperties, [])
+      return { expression, text: this.truncateType(this.simplifyType(text), 2000), expanded }
+    })
+  }
+
+  /**
+   * Busca por assinatura (estilo Hoogle): funções que aceitam/retornam os tipos pedidos e
+   * interfaces/types com uma propriedade de nome e/ou tipo dados. A comparação passa pelo
+   * checker, então aliases (`WAMessage` → `proto.IWebMessageInfo`) são seguidos.
+   */
+  searchBySignature(query: SignatureQuery, maxResults = 20): SignatureMatch[] {
+    const expressions = [...(query.parameters ?? []), query.returnType, query.propertyType].filter(
+      (e): e is string => !!e,
+    )
+    const hasFunctionQuery = (query.parameters?.length ?? 0) > 0 || !!query.returnType
+    const hasPropertyQuery = !!query.propertyName || !!query.propertyType
+    if (!hasFunctionQuery && !hasPropertyQuery) return []
+
+    const allTypes = this.extractAllTypes()
+    this.ensureProjectLoaded()
+
+    return this.withResolvedTypes(expressions, (resolved) => {
+      const parameterTypes = (query.parameters ?? []).map((e) => resolved.get(e)!)
+      const returnType = query.returnType ? resolved.get(query.returnType) : undefined
+      const propertyType = query.propertyType ? resolved.get(query.propertyType) : undefined
+      const matches: SignatureMatch[] = []
+
+      for (const type of allTypes) {
+        if (hasFunctionQuery && (type.kind === 'function' || (type.kind === 'variable' && type.parameters))) {
+          const node = this.getDeclarationNode(type)
+          const match = node && this.matchCallSignatures(type, node, parameterTypes, returnType)
+          if (match) matches.push(match)
+        } else if (
+          hasPropertyQuery &&
+          !hasFunctionQuery &&
+          (type.kind === 'interface' || type.kind === 'type' || type.kind === 'class')
+        ) {
+          const node = this.getDeclarationNode(type)
+          const match = node && this.matchProperty(type, node, query.propertyName, propertyType)
+          if (match) matches.push(match)
+        }
+      }
+
+      return matches
+        .sort((a, b) => b.score - a.score || a.type.name.length - b.type.name.length)
+        .slice(0, maxResults)
+    })
+  }
+
+  private matchCallSignatures(
+    type: ExtractedType,
+    node: Node,
+    parameterTypes: Type[],
+    returnType: Type | undefined,
+  ): SignatureMatch | undefined {
+    let best: SignatureMatch | undefined
+
+    for (const signature of node.getType().getCallSignatures()) {
+      const details: SignatureMatchDetail[] = []
+      const parameters = signature.getParameters().map((param) => {
+        const declaration = param.getValueDeclaration()
+        const name = param.getName().startsWith('__') ? '{...}' : param.getName()
+        const isRest = Node.isParameterDeclaration(declaration) && declaration.isRestParameter()
+        return {
+          name: `${isRest ? '...' : ''}${name}${param.isOptional() ? '?' : ''}`,
+          type: param.getTypeAtLocation(node),
+        }
+      })
+      const usedParameters = new Set<number>()
+
+      for (const wanted of parameterTypes) {
+        let found: { index: number; exact: boolean } | undefined
+        parameters.forEach((param, index) => {
+          if (usedParameters.has(index) || found?.exact) return
+          const comparison = this.compareTypes(wanted, param.type.getNonNullableType())
+          if (comparison && (!found || comparison === 'exact')) found = { index, exact: comparison === 'exact' }
+        })
+        if (!found) break
+        usedParameters.add(found.index)
+        const param = parameters[found.index]
+        details.push({
+          role: 'parameter',
+          name: param.name,
+          type: this.simplifyType(param.type.getText(node)),
+          exact: found.exact,
+        })
+      }
+      if (details.length < parameterTypes.length) continue
+
+      if (returnType) {
+        const actual = signature.getReturnType()
+        let comparison = this.compareTypes(actual, returnType)
+        let viaPromise = false
+        const awaited = this.getPromiseResult(actual)
+        if (!comparison && awaited) {
+          comparison = this.compareTypes(awaited, returnType)
+          viaPromise = !!comparison
+        }
+        if (!comparison) continue
+        details.push({
+          role: 'return',
+          type: this.simplifyType(actual.getText(node)),
+          exact: comparison === 'exact',
+          viaPromise,
+        })
+      }
+
+      const score = details.reduce((sum, d) => sum + (d.exact ? 3 : 1) - (d.viaPromise ? 0.5 : 0), 0)
+      if (!best || score > best.score) {
+        const signatureText = this.truncateType(
+          `(${parameters.map((p) => `${p.name}: ${this.simplifyType(p.type.getText(node))}`).join(', ')}) => ${this.simplifyType(signature.getReturnType().getText(node))}`,
+        )
+        best = { type, score, signature: signatureText, details }
+      }
+    }
+
+    return best
+  }
+
+  private matchProperty(
+    type: ExtractedType,
+    node: Node,
+    propertyName: string | undefined,
+    propertyType: Type | undefined,
+  ): SignatureMatch | undefined {
+    const declaredType = node.getType()
+    const candidates = propertyName
+      ? [declaredType.getProperty(propertyName)].filter((p) => p !== undefined)
+      : declaredType.getProperties()
+
+    let best: SignatureMatch | undefined
+    for (const property of candidates) {
+      const actual = property.getTypeAtLocation(node)
+      let exact = true
+      if (propertyType) {
+        const comparison = this.compareTypes(actual.getNonNullableType(), propertyType)
+        if (!comparison) continue
+        exact = comparison === 'exact'
+      }
+      const typeText = this.simplifyType(actual.getText(node))
+      const score = (propertyName ? 3 : 0) + (propertyType ? (exact ? 3 : 1) : 0)
+      if (!best || score > best.score) {
+        best = {
+          type,
+          score,
+          signature: `${property.getName()}${property.isOptional() ? '?' : ''}: ${this.truncateType(typeText)}`,
+          details: [{ role: 'property', name: property.getName(), type: typeText, exact }],
+        }
+      }
+    }
+    return best
+  }
+
+  /**
+   * `exact` quando os dois lados resolvem para o mesmo tipo, `assignable` quando `source`
+   * cabe em `target`. `any`/`unknown` não contam: aceitariam qualquer consulta.
+   */
+  private compareTypes(source: Type, target: Type): 'exact' | 'assignable' | undefined {
+    if (source.isAny() || source.isUnknown() || target.isAny() || target.isUnknown()) return undefined
+    if (source.compilerType === target.compilerType) return 'exact'
+    const checker = this.project.getTypeChecker()
+    if (!checker.isTypeAssignableTo(source, target)) return undefined
+    return checker.isTypeAssignableTo(target, source) ? 'exact' : 'assignable'
+  }
+
+  private getPromiseResult(type: Type): Type | undefined {
+    if (type.getSymbol()?.getName() !== 'Promise') return undefined
+    return type.getTypeArguments()[0]
+  }
+
+  /**
+   * Resolve expressões de tipo (`WAMessage`, `Promise<Buffer>`, `proto.IMessage`) num arquivo
+   * temporário dentro de src/, importando os nomes do whaileys que aparecem nelas. Os `Type`
+   * só valem dentro de `fn`: o arquivo é removido em seguida.
+   */
+  private withResolvedTypes<T>(
+    expressions: string[],
+    fn: (resolved: Map<string, Type>, scratch: SourceFile) => T,
+  ): T {
+    const unique = [...new Set(expressions)]
+    const aliases = unique.map((_, index) => `__McpQuery${index}`)
+    const content = [
+      this.buildScratchImports(unique.join(' ')),
+      ...unique.map((expression, index) => `type ${aliases[index]} = ${expression}`),
+    ].join('\n')
+
+    return this.withScratchFile(content, (scratch) => {
+      const [error] = this.getScratchDiagnostics(scratch)
+      if (error) throw new Error(`Tipo inválido: ${this.getDiagnosticText(error)}`)
+
+      const resolved = new Map<string, Type>()
+      unique.forEach((expression, index) => {
+        resolved.set(expression, scratch.getTypeAliasOrThrow(aliases[index]).getType())
+      })
+      return fn(resolved, scratch)
+    })
+  }
+
+  /**
+   * Cria um arquivo temporário em src/ (resolvendo imports relativos como qualquer arquivo do
+   * whaileys) e o remove ao final. Tipos e nós obtidos dele só valem dentro de `fn`.
+   */
+  private withScratchFile<T>(content: string, fn: (scratch: SourceFile) => T): T {
+    this.ensureProjectLoaded()
+    const scratch = this.project.createSourceFile(
+      path.join(this.whaileysSrcPath, '__mcp_scratch__.ts'),
+      content,
+      { overwrite: true },
+    )
+    try {
+      return fn(scratch)
+    } finally {
+      this.project.removeSourceFile(scratch)
+    }
+  }
+
+  private getScratchDiagnostics(scratch: SourceFile): Diagnostic[] {
+    return scratch
+      .getPreEmitDiagnostics()
+      .filter((d) => d.getSourceFile()?.getFilePath() === scratch.getFilePath())
+  }
+
+  private getDiagnosticText(diagnostic: Diagnostic): string {
+    return ts.flattenDiagnosticMessageText(diagnostic.compilerObject.messageText, '\n')
+  }
+
+  /** Gera `import type` para cada identificador da expressão que é uma declaração do whaileys */
+  private buildScratchImports(expression: string): string {
+    const allTypes = this.extractAllTypes()
+    const identifiers = new Set(expression.match(/(?<![.\w$'"])[A-Za-z_$][\w$]*/g) ?? [])
+    const imports: string[] = []
+
+    for (const identifier of identifiers) {
+      const found = allTypes.find((t) => t.name === identifier && t.exported && t.kind !== 're-export')
+      if (!found) continue
+      const sourceFile = this.getDeclarationNode(found)?.getSourceFile()
+      if (!sourceFile) continue
+
+      const specifier =
+        './' +
+        path
+          .relative(this.whaileysSrcPath, sourceFile.getFilePath())
+          .replace(/\\/g, '/')
+          .replace(/(\.d)?\.ts$/, '')
+      const isDefault =
+        !sourceFile.getExportedDeclarations().has(identifier) &&
+        sourceFile.getExportedDeclarations().has('default')
+      imports.push(
+        isDefault
+          ? `import type ${identifier} from '${specifier}'`
+          : `import type { ${identifier} } from '${specifier}'`,
+      )
+    }
+
+    return imports.join('\n')
+  }
+
+  /**
+   * Exemplos reais de uso de um símbolo (função, tipo ou método do socket) encontrados em
+   * `Example/` e nos testes, do mais ilustrativo para o menos: chamadas antes de simples
+   * referências, exemplos antes de testes, trechos curtos antes de longos.
+   */
+  getUsageExamples(symbolName: string, maxResults = 5): UsageExample[] {
+    const index = this.getUsageIndex()
+    const lowerName = symbolName.toLowerCase()
+    const key =
+      [...index.keys()].find((name) => name === symbolName) ??
+      [...index.keys()].find((name) => name.toLowerCase() === lowerName)
+    if (!key) return []
+
+    const score = (example: UsageExample) =>
+      (example.kind === 'call' ? 4 : 0) +
+      (example.source === 'example' ? 2 : 0) -
+      example.snippet.split('\n').length / USAGE_SNIPPET_MAX_LINES
+
+    return [...index.get(key)!].sort((a, b) => score(b) - score(a)).slice(0, maxResults)
+  }
+
+  /**
+   * Índice de uso montado sob demanda: cada identificador em `Example/` e nos testes que
+   * nomeia uma declaração exportada (ou um método do socket, via `sock.metodo`) vira um
+   * trecho. Os arquivos são lidos num `Project` separado, apenas sintaticamente.
+   */
+  private getUsageIndex(): Map<string, UsageExample[]> {
+    if (this.usageIndex) return this.usageIndex
+
+    const exportedNames = new Set(
+      this.extractAllTypes()
+        .filter((t) => t.exported && t.kind !== 're-export' && !t.name.includes('.'))
+        .map((t) => t.name),
+    )
+    const socketMembers = new Set(this.getSocketApi()?.members.map((m) => m.name) ?? [])
+
+    const repositoryRoot = path.dirname(this.whaileysSrcPath)
+    const usageProject = new Project({
+      skipAddingFilesFromTsConfig: true,
+      skipFileDependencyResolution: true,
+    })
+    usageProject.addSourceFilesAtPaths([
+      path.join(repositoryRoot, 'Example', '**', '*.ts'),
+      path.join(this.whaileysSrcPath, '**', 'Tests', '**', '*.ts'),
+      path.join(this.whaileysSrcPath, '**', '*.test.ts'),
+      path.join(this.whaileysSrcPath, '**', '*.spec.ts'),
+    ])
+
+    const index = new Map<string, UsageExample[]>()
+    const seen = new Set<string>()
+
+    for (const sourceFile of usageProject.getSourceFiles()) {
+      const file = path.relative(repositoryRoot, sourceFile.getFilePath()).replace(/\\/g, '/')
+      const source: UsageSource = file.startsWith('Example/') ? 'example' : 'test'
+
+      for (const identifier of sourceFile.getDescendantsOfKind(SyntaxKind.Identifier)) {
+        const name = identifier.getText()
+        const parent = identifier.getParent()
+        const isMemberAccess = Node.isPropertyAccessExpression(parent) && parent.getNameNode() === identifier
+        if (isMemberAccess ? !socketMembers.has(name) : !exportedNames.has(name)) continue
+        if (identifier.getFirstAncestorByKind(SyntaxKind.ImportDeclaration)) continue
+
+        const line = identifier.getStartLineNumber()
+        const key = `${name}:${file}:${line}`
+        if (seen.has(key)) continue
+        seen.add(key)
+
+        const callee = isMemberAccess ? parent : identifier
+        const call = callee.getParent()
+        const isCall =
+          (Node.isCallExpression(call) || Node.isNewExpression(call)) && call.getExpression() === callee
+
+        if (!index.has(name)) index.set(name, [])
+        index.get(name)!.push({
+          symbol: name,
+          file,
+          line,
+          source,
+          kind: isCall ? 'call' : 'reference',
+          enclosing: this.getEnclosingName(identifier),
+          snippet: this.getUsageSnippet(identifier),
+        })
+      }
+    }
+
+    this.usageIndex = index
+    return index
+  }
+
+  /** Statement que contém o uso, limitado a algumas linhas a partir dele e sem indentação comum */
+  private getUsageSnippet(node: Node): string {
+    const statement =
+      node.getFirstAncestor(
+        (a) => Node.isExpressionStatement(a) || Node.isVariableStatement(a) || Node.isReturnStatement(a),
+      ) ?? node
+    const fileLines = node.getSourceFile().getFullText().split('\n')
+    const start = statement.getStartLineNumber()
+    const end = statement.getEndLineNumber()
+    const line = node.getStartLineNumber()
+
+    const first = end - start < USAGE_SNIPPET_MAX_LINES ? start : Math.max(start, line - 2)
+    const last = Math.min(end, first + USAGE_SNIPPET_MAX_LINES - 1)
+    const lines = fileLines.slice(first - 1, last)
+
+    const indent = Math.min(
+      ...lines.filter((l) => l.trim()).map((l) => l.match(/^\s*/)![0].length),
+    )
+    const snippet = lines.map((l) => l.substring(indent).trimEnd()).join('\n')
+    return last < end ? `${snippet}\n// ...` : snippet
+  }
+
+  /**
+   * Gera um trecho TypeScript que chama a função (ou o método do socket) com valores de
+   * exemplo montados a partir do tipo de cada parâmetro obrigatório, importando do pacote,
+   * e o compila contra o whaileys antes de devolver.
+   */
+  generateUsageSkeleton(name: string): UsageSkeleton | null {
+    const found = this.searchType(name)
+    const isFunction =
+      found?.name === name && (found.kind === 'function' || (found.kind === 'variable' && !!found.parameters))
+    const socketApi = isFunction ? null : this.getSocketApi()
+    const socketMember = socketApi?.members.find((m) => m.name === name && m.isMethod)
+    if (!isFunction && !socketMember) return null
+
+    const callee = isFunction ? found! : socketApi!.factory
+    const node = this.getDeclarationNode(callee)
+    if (!node) return null
+
+    let calleeType = node.getType()
+    if (socketMember) {
+      const socketType = calleeType.getCallSignatures()[0]?.getReturnType()
+      const member = socketType?.getProperty(name)
+      if (!member) return null
+      calleeType = member.getTypeAtLocation(node)
+    }
+    const signature = calleeType.getCallSignatures()[0]
+    if (!signature) return null
+
+    const extraImports = new Set<string>()
+    const parameters = signature.getParameters()
+    const declaredParameters = isFunction ? (found!.parameters ?? []) : []
+    let required = parameters.length
+    while (required > 0 && parameters[required - 1].isOptional()) required--
+
+    const args = parameters.slice(0, required).map((param, index) => {
+      const declaration = param.getValueDeclaration()
+      if (Node.isParameterDeclaration(declaration) && declaration.isRestParameter()) return undefined
+      const type = param.getTypeAtLocation(node)
+      const declaredType =
+        declaredParameters[index]?.type ?? this.simplifyType(type.getText(node))
+      const value = this.buildPlaceholder(type, node, param.getName(), 1, extraImports)
+      return `    ${value}, // ${param.getName()}: ${this.truncateType(declaredType, 80)}`
+    }).filter((arg): arg is string => arg !== undefined)
+
+    const returnType = signature.getReturnType()
+    const isAsync = !!this.getPromiseResult(returnType)
+    const returnsValue = !(isAsync ? this.getPromiseResult(returnType)! : returnType).isVoid()
+    const call = `${socketMember ? `sock.${name}` : callee.name}(${args.length > 0 ? `\n${args.join('\n')}\n  ` : ''})`
+
+    const packageName = this.readPackageJson()?.name ?? 'whaileys'
+    const lines = [
+      ...this.buildPackageImports([callee.name, ...extraImports], packageName),
+      '',
+      ...(socketMember ? [`declare const sock: ReturnType<typeof ${callee.name}>`, ''] : []),
+      'async function main() {',
+      `  ${returnsValue ? 'const result = ' : ''}${isAsync ? 'await ' : ''}${call}`,
+      ...(returnsValue ? ['  console.log(result)'] : []),
+      '}',
+      '',
+      'main()',
+    ]
+    const code = lines.join('\n')
+
+    return {
+      symbol: socketMember ? `sock.${name}` : callee.name,
+      target: socketMember ? 'socket' : 'function',
+      code,
+      diagnostics: this.validateSnippet(code).map((d) => `L${d.line}: ${d.message}`),
+    }
+  }
+
+  /** Valor de exemplo que satisfaz `type`: literais, primeira variante de uniões, propriedades obrigatórias */
+  private buildPlaceholder(type: Type, location: Node, name: string, depth: number, imports: Set<string>): string {
+    const typeText = this.simplifyType(type.getText(location))
+    const opaque = `null! /* ${this.truncateType(typeText, 60)} */`
+
+    if (type.isAny() || type.isUnknown()) return 'undefined'
+    if (type.isStringLiteral()) return `'${String(type.getLiteralValue()).replace(/'/g, "\\'")}'`
+    if (type.isNumberLiteral() || type.isBooleanLiteral()) return type.getText()
+    if (type.isEnumLiteral() || type.isEnum()) {
+      const member = type.isEnum() ? type.getUnionTypes()[0] : type
+      const text = member?.getText(location) ?? ''
+      const root = text.split('.')[0]
+      if (!/^[A-Za-z_$][\w$.]*$/.test(text) || !this.isPackageExport(root)) return opaque
+      imports.add(root)
+      return text
+    }
+    if (type.isString() || type.isTemplateLiteral()) return /jid/i.test(name) ? "'5511999999999@s.whatsapp.net'" : "''"
+    if (type.isNumber()) return '0'
+    if (type.isBoolean()) return 'false'
+
+    if (type.isUnion()) {
+      const members = type.getUnionTypes().filter((t) => !t.isNull() && !t.isUndefined())
+      if (members.length === 1) return this.buildPlaceholder(members[0], location, name, depth, imports)
+      const primitive = members.find((t) => !t.isObject() && !t.isIntersection())
+      if (primitive) return this.buildPlaceholder(primitive, location, name, depth, imports)
+
+      const requiredKeys = (t: Type) =>
+        t.getProperties().filter((p) => !p.isOptional()).map((p) => p.getName())
+      const variants = [...members].sort((a, b) => requiredKeys(a).length - requiredKeys(b).length)
+      const value = this.buildPlaceholder(variants[0], location, name, depth, imports)
+      const alternatives = members
+        .slice(0, SKELETON_MAX_VARIANTS)
+        .map((t) => `{ ${requiredKeys(t).slice(0, 3).join(', ')} }`)
+      if (members.length > SKELETON_MAX_VARIANTS) alternatives.push('...')
+      return `${value} /* variantes: ${alternatives.join(' | ')} */`
+    }
+
+    if (type.isTuple()) {
+      return `[${type.getTupleElements().map((t) => this.buildPlaceholder(t, location, name, depth, imports)).join(', ')}]`
+    }
+    if (type.isArray()) return '[]'
+
+    const symbolName = (type.getAliasSymbol() ?? type.getSymbol())?.getName()
+    if (symbolName === 'Buffer') return 'Buffer.alloc(0)'
+    if (symbolName === 'Uint8Array') return 'new Uint8Array()'
+    if (symbolName === 'Date') return 'new Date()'
+    if (symbolName === 'Map' || symbolName === 'Set') return `new ${symbolName}()`
+
+    const callSignatures = type.getCallSignatures()
+    if (callSignatures.length > 0) {
+      const callbackReturn = callSignatures[0].getReturnType()
+      const awaited = this.getPromiseResult(callbackReturn)
+      if (awaited?.isVoid()) return 'async () => {}'
+      return callbackReturn.isVoid() || callbackReturn.isAny()
+        ? '() => {}'
+        : "() => { throw new Error('TODO') }"
+    }
+
+    if (!type.isObject() && !type.isIntersection()) return opaque
+    if (symbolName && this.getTypeDeclarationKind(type) === 'class') return opaque
+
+    const requiredProperties = type.getProperties().filter((p) => !p.isOptional())
+    if (requiredProperties.length === 0) return '{}'
+    if (depth > SKELETON_MAX_DEPTH) return opaque
+
+    const indent = '  '.repeat(depth + 2)
+    const properties = requiredProperties.map((prop) => {
+      const key = /^[A-Za-z_$][\w$]*$/.test(prop.getName()) ? prop.getName() : `'${prop.getName()}'`
+      const value = this.buildPlaceholder(prop.getTypeAtLocation(location), location, prop.getName(), depth + 1, imports)
+      return `${indent}${key}: ${value},`
+    })
+    return `{\n${properties.join('\n')}\n${'  '.repeat(depth + 1)}}`
+  }
+
+  private getTypeDeclarationKind(type: Type): 'class' | 'other' {
+    const declaration = type.getSymbol()?.getDeclarations()[0]
+    return Node.isClassDeclaration(declaration) ? 'class' : 'other'
+  }
+
+  private isPackageExport(name: string): boolean {
+    const entryFile = this.getEntryPointFile()
+    const entry = entryFile ? this.getSourceFile(entryFile) : undefined
+    return !!entry?.getExportedDeclarations().has(name)
+  }
+
+  /**
+   * Imports a partir da raiz do pacote; o que o entry point não exporta vem do caminho
+   * compilado (`whaileys/lib/Utils/messages`).
+   */
+  private buildPackageImports(names: string[], packageName: string): string[] {
+    const entryFile = this.getEntryPointFile()
+    const entry = entryFile ? this.getSourceFile(entryFile) : undefined
+    const exported = entry?.getExportedDeclarations()
+    const outDir = this.readPackageEntry()?.replace(/^\.\//, '').match(/^(lib|dist|build)\//)?.[1] ?? 'lib'
+
+    let defaultImport: string | undefined
+    const named: string[] = []
+    const deep = new Map<string, string[]>()
+
+    for (const name of new Set(names)) {
+      const found = this.searchType(name)
+      const node = found?.name === name ? this.getDeclarationNode(found) : undefined
+      if (exported?.has(name)) {
+        named.push(name)
+      } else if (node && exported?.get('default')?.some((declaration) => declaration === node)) {
+        defaultImport = name
+      } else if (found) {
+        const specifier = `${packageName}/${outDir}/${found.file.replace(/(\.d)?\.ts$/, '')}`
+        if (!deep.has(specifier)) deep.set(specifier, [])
+        deep.get(specifier)!.push(name)
+      }
+    }
+
+    const rootClause = [defaultImport, named.length > 0 ? `{ ${named.join(', ')} }` : undefined]
+      .filter(Boolean)
+      .join(', ')
+    return [
+      ...(rootClause ? [`import ${rootClause} from '${packageName}'`] : []),
+      ...[...deep].map(([specifier, names]) => `import { ${names.join(', ')} } from '${specifier}'`),
+    ]
+  }
+
+  /**
+   * Compila um trecho que importa do pacote (`from 'whaileys'`, `from 'whaileys/lib/...'`)
+   * junto com o código-fonte indexado, trocando esses imports pelos arquivos de src/. Cada
+   * diagnóstico aponta a declaração do whaileys envolvida, quando há uma.
+   */
+  validateSnippet(code: string): ValidationDiagnostic[] {
+    this.extractAllTypes()
+    const packageName = this.readPackageJson()?.name ?? 'whaileys'
+    const entryFile = (this.getEntryPointFile() ?? 'index.ts').replace(/\.ts$/, '')
+    const escaped = packageName.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')
+    const content = code
+      .replace(new RegExp(`from (['"])${escaped}\\1`, 'g'), `from './${entryFile}'`)
+      .replace(new RegExp(`from (['"])${escaped}/(lib|dist|build)/([^'"]+)\\1`, 'g'), "from './$3'")
+
+    return this.withScratchFile(content, (scratch) =>
+      this.getScratchDiagnostics(scratch).map((diagnostic) => {
+        const start = diagnostic.getStart() ?? 0
+        const { line, column } = scratch.getLineAndColumnAtPos(start)
+        return {
+          line,
+          column,
+          code: diagnostic.getCode(),
+          message: this.getDiagnosticText(diagnostic),
+          related: this.findRelatedDeclaration(diagnostic, scratch, start),
+        }
+      }),
+    )
+  }
+
+  /**
+   * Declaração do whaileys ligada ao erro: a indicada pelo próprio TypeScript ("declared
+   * here") ou a da chamada/propriedade mais próxima do ponto do erro no trecho.
+   */
+  private findRelatedDeclaration(
+    diagnostic: Diagnostic,
+    scratch: SourceFile,
+    start: number,
+  ): RelatedDeclaration | undefined {
+    for (const info of diagnostic.compilerObject.relatedInformation ?? []) {
+      const sourceFile = info.file && this.project.getSourceFile(info.file.fileName)
+      const node = sourceFile?.getDescendantAtPos(info.start ?? 0)
+      if (node && this.isWhaileysNode(node) && sourceFile !== scratch) return this.describeDeclaration(node)
+    }
+
+    let node: Node | undefined = scratch.getDescendantAtPos(start)
+    while (node && node !== scratch) {
+      const target = Node.isCallExpression(node) || Node.isNewExpression(node) ? node.getExpression() : node
+      if (Node.isIdentifier(target) || Node.isPropertyAccessExpression(target)) {
+        let symbol = target.getSymbol()
+        if (symbol?.isAlias()) symbol = symbol.getAliasedSymbol() ?? symbol
+        const declaration = symbol?.getDeclarations().find((d) => this.isWhaileysNode(d) && d.getSourceFile() !== scratch)
+        if (declaration) return this.describeDeclaration(declaration)
+      }
+      if (Node.isStatement(node)) break
+      node = node.getParent()
+    }
+    return undefined
+  }
+
+  private describeDeclaration(node: Node): RelatedDeclaration {
+    const declaration =
+      [node, ...node.getAncestors()].find((n) => Node.hasName(n) && !Node.isIdentifier(n)) ?? node
+    const names = [declaration, ...declaration.getAncestors()]
+      .filter((n) => Node.hasName(n) && !Node.isSourceFile(n) && !Node.isVariableStatement(n))
+      .map((n) => (n as Node & { getName(): string }).getName())
+      .reverse()
+    const filePath = declaration.getSourceFile().getFilePath()
+    const relativePath = this.getRelativePath(filePath)
+
+    return {
+      name: names.join('.') || declaration.getKindName(),
+      file: relativePath.startsWith('..')
+        ? path.relative(path.dirname(this.whaileysSrcPath), filePath).replace(/\\/g, '/')
+        : relativePath,
+      line: declaration.getStartLineNumber(),
+      text: this.truncateType(declaration.getText().split('\n')[0].trim()),
+    }
+  }
+
+  /**
+   * Separa uma união (ou interseção) em variantes, com as propriedades obrigatórias e
+   * opcionais de cada uma, as chaves que identificam cada variante e os campos que elas
+   * compartilham. O checker distribui `(A | B) & C`, então cada variante já vem completa.
+   */
+  getUnionVariants(typeName: string): UnionAnalysis | null {
+    const found = this.searchType(typeName)
+    if (!found) return null
+    const node = this.getDeclarationNode(found)
+    if (!node) return null
+
+    const type = node.getType()
+    const kind = type.isUnion() && !type.isBoolean() ? 'union' : type.isIntersection() ? 'intersection' : 'object'
+    const members =
+      kind === 'union'
+        ? type.getUnionTypes().filter((t) => !t.isNull() && !t.isUndefined())
+        : kind === 'intersection'
+          ? type.getIntersectionTypes()
+          : [type]
+
+    // Literais, primitivos e tipos externos (Buffer, Date) viram variantes sem propriedades
+    const propertiesOf = (member: Type) =>
+      (member.isObject() || member.isIntersection()) && this.isWhaileysType(member) ? member.getProperties() : []
+
+    const variants = members.map((member) => {
+      const required: VariantProperty[] = []
+      const optional: VariantProperty[] = []
+      for (const property of propertiesOf(member)) {
+        const declaration = property.getDeclarations()[0]
+        const declaredType = Node.isTyped(declaration) ? declaration.getTypeNode()?.getText() : undefined
+        const info: VariantProperty = {
+          name: property.getName(),
+          type: this.truncateType(this.simplifyType(declaredType ?? property.getTypeAtLocation(node).getText(node)), 100),
+          docs: declaration ? this.getJsDocs(declaration) : undefined,
+        }
+        ;(property.isOptional() ? optional : required).push(info)
+      }
+
+      const named = member.getAliasSymbol() ?? member.getSymbol()
+      const namedLabel = named && !named.getName().startsWith('__') ? named.getName() : undefined
+      const label =
+        propertiesOf(member).length === 0
+          ? this.truncateType(this.simplifyType(member.getText(node)), 80)
+          : namedLabel ?? `{ ${required.map((p) => p.name).join(', ') || optional.map((p) => `${p.name}?`).join(', ')} }`
+      return { label, required, optional, exclusiveKeys: [] as string[] }
+    })
+
+    const occurrences = new Map<string, number[]>()
+    variants.forEach((variant, index) => {
+      for (const property of [...variant.required, ...variant.optional]) {
+        if (!occurrences.has(property.name)) occurrences.set(property.name, [])
+        occurrences.get(property.name)!.push(index)
+      }
+    })
+
+    for (const variant of variants) {
+      variant.exclusiveKeys = variant.required
+        .map((p) => p.name)
+        .filter((name) => occurrences.get(name)!.length === 1)
+    }
+
+    const common = [...occurrences].filter(([, indexes]) => indexes.length === variants.length).map(([name]) => name)
+    const discriminants =
+      kind === 'union'
+        ? common.filter((name) => {
+            const literals = members.map((m) => propertiesOf(m).find((p) => p.getName() === name)?.getTypeAtLocation(node))
+            if (!literals.every((t) => t?.isLiteral() || t?.isEnumLiteral())) return false
+            return new Set(literals.map((t) => t!.getText())).size === literals.length
+          })
+        : []
+    const shared = [...occurrences]
+      .filter(([, indexes]) => indexes.length > 1 && indexes.length < variants.length)
+      .map(([name, indexes]) => ({ name, variants: indexes }))
+      .sort((a, b) => b.variants.length - a.variants.length)
+
+    return { type: found, kind, variants, discriminants, common, shared }
+  }
+
+  /**
+   * Resolve o objeto retornado por uma fábrica de socket (por padrão `makeWASocket`) e
+   * atribui cada membro à camada (`makeSocket` → `makeChatsSocket` → ...) que o declara.
+   */
+  getSocketApi(factoryName = 'makeWASocket'): SocketApi | null {
+    const found = this.searchType(factoryName)
+    if (!found || found.kind !== 'function') return null
+
+    const func = this.getFunctionLikeNode(this.getDeclarationNode(found))
+    if (!func) return null
+
+    const returnType = func.getReturnType()
+    const memberNames = new Set(returnType.getProperties().map((p) => p.getName()))
+
+    const layers: SocketLayer[] = []
+    let current: { name: string; node: FunctionLikeDeclaration } | undefined = {
+      name: found.name,
+      node: func,
+    }
+    while (current && !layers.some((l) => l.factory === current!.name)) {
+      layers.push({
+        factory: current.name,
+        file: this.getRelativePath(current.node.getSourceFile().getFilePath()),
+        line: current.node.getStartLineNumber(),
+      })
+      current = this.findBaseFactory(current.node, memberNames)
+    }
+
+    const checker = this.project.getTypeChecker().compilerObject
+    const members: SocketMember[] = []
+    for (const property of returnType.getProperties()) {
+      let declaration = property.getDeclarations()[0]
+      let docs = property.compilerSymbol
+        .getDocumentationComment(checker)
+        .map((part) => part.text)
+        .join('')
+        .trim()
+
+      if (declaration && Node.isShorthandPropertyAssignment(declaration)) {
+        const valueDeclaration = declaration.getValueSymbol()?.getDeclarations()[0]
+        if (valueDeclaration) {
+          if (!docs) {
+            const valueStatement = Node.isVariableDeclaration(valueDeclaration)
+              ? valueDeclaration.getVariableStatement()
+              : undefined
+            docs = (valueStatement && this.getJsDocs(valueStatement)) || ''
+          }
+          declaration = valueDeclaration
+        }
+      }
+
+      const propertyType = declaration ? property.getTypeAtLocation(declaration) : undefined
+      const typeText = propertyType ? this.simplifyType(propertyType.getText(declaration)) : 'unknown'
+      const sourceFile = declaration?.getSourceFile()
+
+      members.push({
+        name: property.getName(),
+        type: typeText,
+        optional: property.isOptional(),
+        isMethod: (propertyType?.getCallSignatures().length ?? 0) > 0,
+        docs: docs || undefined,
+        factory: declaration ? this.getFactoryName(declaration) : '(desconhecida)',
+        file: sourceFile
+          ? this.isWhaileysNode(declaration!)
+            ? this.getRelativePath(sourceFile.getFilePath())
+            : path.basename(sourceFile.getFilePath())
+          : '',
+        line: declaration?.getStartLineNumber() ?? 0,
+        endLine: declaration?.getEndLineNumber() ?? 0,
+      })
+    }
+
+    return { factory: found, layers, members }
+  }
+
+  private getFunctionLikeNode(node: Node | undefined): FunctionLikeDeclaration | undefined {
+    if (!node) return undefined
+    if (Node.isFunctionDeclaration(node)) return node
+    if (Node.isVariableDeclaration(node)) return this.getCallableInitializer(node)
+    return undefined
+  }
+
+  /**
+   * A camada base é a fábrica chamada dentro do corpo cujo retorno está inteiramente contido
+   * no retorno da fábrica atual (ex: `const sock = makeGroupsSocket(config); return { ...sock }`).
+   */
+  private findBaseFactory(
+    func: FunctionLikeDeclaration,
+    memberNames: Set<string>,
+  ): { name: string; node: FunctionLikeDeclaration } | undefined {
+    let best: { name: string; node: FunctionLikeDeclaration } | undefined
+    let bestCount = 0
+
+    for (const call of func.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+      const symbol = call.getExpression().getSymbol()
+      const declaration = (symbol?.getAliasedSymbol() ?? symbol)?.getDeclarations()[0]
+      if (!declaration || !this.isWhaileysNode(declaration)) continue
+
+      const target = this.getFunctionLikeNode(declaration)
+      if (!target || target === func) continue
+
+      const names = target
+        .getReturnType()
+        .getProperties()
+        .map((p) => p.getName())
+      if (names.length > bestCount && names.every((n) => memberNames.has(n))) {
+        const name = Node.isVariableDeclaration(declaration)
+          ? declaration.getName()
+          : (target as FunctionDeclaration).getName() ?? 'anonymous'
+        best = { name, node: target }
+        bestCount = names.length
+      }
+    }
+
+    return best
+  }
+
+  /**
+   * Nome da função mais externa que contém a declaração, ou seja, a fábrica que a define.
+   */
+  private getFactoryName(node: Node): string {
+    let name: string | undefined
+    for (const ancestor of node.getAncestors()) {
+      if (Node.isFunctionDeclaration(ancestor)) {
+        name = ancestor.getName() ?? name
+      } else if (Node.isArrowFunction(ancestor) || Node.isFunctionExpression(ancestor)) {
+        const parent = ancestor.getParent()
+        if (Node.isVariableDeclaration(parent)) name = parent.getName()
+      }
+    }
+    if (name) return name
+    if (Node.isVariableDeclaration(node) || Node.isFunctionDeclaration(node)) {
+      return node.getName() ?? '(top-level)'
+    }
+    return '(top-level)'
+  }
+
+  /**
+   * Cataloga os eventos de `BaileysEventMap`: payload expandido e os pontos de src/ que
+   * emitem (`ev.emit`), escutam (`ev.on`) ou processam em lote (`events['x']` em `ev.process`).
+   */
+  getEventCatalog(depth = 2, maxProperties = 15): EventInfo[] | null {
+    const found = this.extractAllTypes().find((t) => t.name === 'BaileysEventMap')
+    if (!found) return null
+
+    const node = this.getDeclarationNode(found)
+    if (!node) return null
+
+    const checker = this.project.getTypeChecker().compilerObject
+    const events: EventInfo[] = []
+    for (const property of node.getType().getProperties()) {
+      const declaration = property.getDeclarations()[0] ?? node
+      const payload = this.expandTypeNode(
+        property.getName(),
+        property.getTypeAtLocation(declaration),
+        declaration,
+        depth,
+        maxProperties,
+        [],
+      )
+      const declaredType = Node.isTyped(declaration) ? declaration.getTypeNode()?.getText() : undefined
+      if (declaredType) payload.type = this.simplifyType(declaredType)
+
+      const docs = property.compilerSymbol
+        .getDocumentationComment(checker)
+        .map((part) => part.text)
+        .join('')
+        .trim()
+
+      events.push({ name: property.getName(), docs: docs || undefined, payload, sites: [] })
+    }
+
+    const eventsByName = new Map(events.map((e) => [e.name, e]))
+    this.ensureProjectLoaded()
+    for (const sourceFile of this.project.getSourceFiles()) {
+      if (!this.shouldIndexFile(sourceFile.getFilePath())) continue
+
+      for (const literal of sourceFile.getDescendantsOfKind(SyntaxKind.StringLiteral)) {
+        const event = eventsByName.get(literal.getLiteralValue())
+        if (!event) continue
+
+        const parent = literal.getParent()
+        if (Node.isPropertySignature(parent) && parent.getNameNode() === literal) continue
+        if (Node.isImportDeclaration(parent) || Node.isExportDeclaration(parent)) continue
+
+        const line = literal.getStartLineNumber()
+        event.sites.push({
+          file: this.getRelativePath(sourceFile.getFilePath()),
+          line,
+          enclosing: this.getEnclosingName(literal),
+          snippet: sourceFile.getFullText().split('\n')[line - 1]?.trim().substring(0, 160) ?? '',
+          kind: this.getEventSiteKind(literal),
+        })
+      }
+    }
+
+    for (const event of events) {
+      event.sites.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line)
+    }
+    return events
+  }
+
+  private getEventSiteKind(literal: Node): EventSiteKind {
+    const parent = literal.getParent()
+
+    if (Node.isCallExpression(parent) && parent.getArguments()[0] === literal) {
+      const callee = parent.getExpression()
+      const method = Node.isPropertyAccessExpression(callee) ? callee.getName() : callee.getText()
+      if (EVENT_EMIT_METHODS.has(method)) return 'emit'
+      if (EVENT_LISTEN_METHODS.has(method)) return 'listen'
+    }
+
+    if (Node.isElementAccessExpression(parent) && parent.getArgumentExpression() === literal) {
+      return 'process'
+    }
+
+    return 'other'
+  }
+
+  analyzeDependencies(): DependencyAnalysis {
     const dependencies: Map<string, DependencyInfo> = new Map()
     const allTypes = this.extractAllTypes()
 
-    for (const type of allTypes) {
-      if (!dependencies.has(type.module)) {
-        dependencies.set(type.module, {
-          module: type.module,
+    const getDependency = (module: string): DependencyInfo => {
+      if (!dependencies.has(module)) {
+        dependencies.set(module, {
+          module,
           imports: [],
-          exports: [type.name],
+          importedBy: [],
+          exports: [],
           reExportsFrom: [],
+          fanIn: 0,
+          fanOut: 0,
         })
-      } else {
-        dependencies.get(type.module)!.exports.push(type.name)
       }
+      return dependencies.get(module)!
+    }
+
+    for (const type of allTypes) {
+      const dependency = getDependency(type.module)
+      dependency.exports.push(type.name)
 
       if (type.kind === 're-export' && type.reExportSource) {
-        dependencies.get(type.module)!.reExportsFrom.push(type.reExportSource)
+        dependency.reExportsFrom.push(type.reExportSource)
+      }
+    }
+
+    const fileEdges = this.buildFileImportEdges()
+    const moduleEdgeMap: Map<string, ImportEdge> = new Map()
+
+    for (const edge of fileEdges) {
+      const fromModule = this.getModuleName(path.join(this.whaileysSrcPath, edge.from))
+      const toModule = this.getModuleName(path.join(this.whaileysSrcPath, edge.to))
+      if (fromModule === toModule) continue
+
+      const key = `${fromModule}→${toModule}`
+      const moduleEdge = moduleEdgeMap.get(key)
+      if (moduleEdge) {
+        moduleEdge.symbols = Array.from(new Set([...moduleEdge.symbols, ...edge.symbols]))
+        moduleEdge.typeOnly = moduleEdge.typeOnly && edge.typeOnly
+      } else {
+        moduleEdgeMap.set(key, { ...edge, from: fromModule, to: toModule })
+      }
+    }
+
+    const moduleEdges = Array.from(moduleEdgeMap.values())
+    for (const edge of moduleEdges) {
+      getDependency(edge.from).imports.push(edge.to)
+      getDependency(edge.to).importedBy.push(edge.from)
+    }
+
+    for (const dependency of dependencies.values()) {
+      dependency.fanOut = dependency.imports.length
+      dependency.fanIn = dependency.importedBy.length
+    }
+
+    return {
+      modules: Array.from(dependencies.values()),
+      moduleEdges,
+      fileEdges,
+      moduleCycles: this.findImportCycles(moduleEdges),
+      fileCycles: this.findImportCycles(fileEdges),
+    }
+  }
+
+  private buildFileImportEdges(): ImportEdge[] {
+    this.extractAllTypes()
+    this.ensureProjectLoaded()
+    const edges: Map<string, ImportEdge> = new Map()
+
+    const addEdge = (edge: ImportEdge): void => {
+      const key = `${edge.from}→${edge.to}`
+      const existing = edges.get(key)
+      if (existing) {
+        existing.symbols = Array.from(new Set([...existing.symbols, ...edge.symbols]))
+        existing.typeOnly = existing.typeOnly && edge.typeOnly
+      } else {
+        edges.set(key, edge)
+      }
+    }
+
+    for (const from of this.typesByFile.keys()) {
+      const sourceFile = this.getSourceFile(from)
+      if (!sourceFile) continue
+
+      for (const importDecl of sourceFile.getImportDeclarations()) {
+        const targetFile = importDecl.getModuleSpecifierSourceFile()
+        if (!targetFile) continue
+
+        const targetPath = targetFile.getFilePath()
+        const to = this.getRelativePath(targetPath)
+        // Fora de src/ só interessa o WAProto, cujas declarações também são indexadas
+        const isProtoDeclaration = path.resolve(targetPath) === this.getProtoDeclarationFile()
+        if (!isProtoDeclaration && (to.startsWith('..') || to === from || !this.shouldIndexFile(to))) continue
+
+        const symbols: string[] = []
+        const defaultImport = importDecl.getDefaultImport()
+        if (defaultImport) symbols.push('default')
+        const namespaceImport = importDecl.getNamespaceImport()
+        if (namespaceImport) symbols.push(`* as ${namespaceImport.getText()}`)
+        const namedImports = importDecl.getNamedImports()
+        symbols.push(...namedImports.map((ni) => ni.getName()))
+
+        const typeOnly =
+          importDecl.isTypeOnly() ||
+          (!defaultImport && !namespaceImport && namedImports.length > 0 && namedImports.every((ni) => ni.isTypeOnly()))
+
+        addEdge({ from, to, symbols, typeOnly })
+      }
+
+      for (const edge of this.getReExportEdges(sourceFile)) {
+        const isProtoDeclaration =
+          path.resolve(this.whaileysSrcPath, edge.target) === this.getProtoDeclarationFile()
+        if ((edge.target.startsWith('..') && !isProtoDeclaration) || !this.typesByFile.has(edge.target)) continue
+        const symbols = edge.names ? edge.names.map(([, original]) => original) : ['export *']
+        addEdge({ from, to: edge.target, symbols, typeOnly: false })
+      }
+    }
+
+    return Array.from(edges.values())
+  }
+
+  /**
+   * Encontra os componentes fortemente conexos (Tarjan) do grafo de imports e, para cada um,
+   * devolve um ciclo concreto (menor caminho de volta ao primeiro nó do componente).
+   */
+  private findImportCycles(edges: ImportEdge[]): ImportCycle[] {
+    const adjacency: Map<string, ImportEdge[]> = new Map()
+    for (const edge of edges) {
+      if (!adjacency.has(edge.from)) adjacency.set(edge.from, [])
+      adjacency.get(edge.from)!.push(edge)
+    }
+
+    const indexes: Map<string, number> = new Map()
+    const lowLinks: Map<string, number> = new Map()
+    const onStack: Set<string> = new Set()
+    const stack: string[] = []
+    const components: string[][] = []
+    let nextIndex = 0
+
+    const strongConnect = (node: string): void => {
+      indexes.set(node, nextIndex)
+      lowLinks.set(node, nextIndex)
+      nextIndex++
+      stack.push(node)
+      onStack.add(node)
+
+      for (const edge of adjacency.get(node) ?? []) {
+        if (!indexes.has(edge.to)) {
+          strongConnect(edge.to)
+          lowLinks.set(node, Math.min(lowLinks.get(node)!, lowLinks.get(edge.to)!))
+        } else if (onStack.has(edge.to)) {
+          lowLinks.set(node, Math.min(lowLinks.get(node)!, indexes.get(edge.to)!))
+        }
+      }
+
+      if (lowLinks.get(node) === indexes.get(node)) {
+        const component: string[] = []
+        let member: string
+        do {
+          member = stack.pop()!
+          onStack.delete(member)
+          component.push(member)
+        } while (member !== node)
+        if (component.length > 1) components.push(component)
       }
     }
 
-    return Array.from(dependencies.values())
+    for (const node of adjacency.keys()) {
+      if (!indexes.has(node)) strongConnect(node)
+    }
+
+    return components.map((component) => {
+      const members = new Set(component)
+      const start = component.sort()[0]
+      const previous: Map<string, ImportEdge> = new Map()
+      const queue = [start]
+
+      while (queue.length > 0) {
+        const node = queue.shift()!
+        const closing = (adjacency.get(node) ?? []).find((e) => e.to === start)
+        if (closing) {
+          const cycleEdges = [closing]
+          for (let current = node; current !== start; current = previous.get(current)!.from) {
+            cycleEdges.unshift(previous.get(current)!)
+          }
+          return {
+            path: [start, ...cycleEdges.map((e) => e.to)],
+            typeOnly: cycleEdges.every((e) => e.typeOnly),
+          }
+        }
+        for (const edge of adjacency.get(node) ?? []) {
+          if (members.has(edge.to) && edge.to !== start && !previous.has(edge.to)) {
+            previous.set(edge.to, edge)
+            queue.push(edge.to)
+          }
+        }
+      }
+
+      return { path: [...component, start], typeOnly: false }
+    })
   }
 
   getVariables(): ExtractedType[] {
@@ -1,7 +1,7 @@
 import * as fs from 'fs'
 import * as path from 'path'
 import * as os from 'os'
-import { execSync } from 'child_process'
+import { execFileSync, execSync } from 'child_process'
 import { fileURLToPath } from 'url'
 
 const __filename = fileURLToPath(import.meta.url)
@@ -171,6 +171,198 @@ export function getLocalCommitSha(): string | null {
   }
 }
 
+const SHA_PATTERN = /^[0-9a-f]{7,40}$/
+
+export function getChangedFiles(fromSha: string, toSha: string): string[] | null {
+  // `toSha` vem da resposta da API do GitHub: nunca repassar algo que não seja um SHA
+  if (!SHA_PATTERN.test(fromSha) || !SHA_PATTERN.test(toSha)) return null
+
+  try {
+    const output = execFileSync('git', ['diff', '--name-only', fromSha, toSha], {
+      cwd: WHAILEYS_DIR,
+      encoding: 'utf-8',
+      stdio: 'pipe',
+    })
+    return output
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .map((file) => path.join(WHAILEYS_DIR, file))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Indica se a cópia de trabalho tem alterações (inclusive arquivos novos) em src/ ou WAProto/
+ * em relação ao HEAD: nesse caso o índice extraído dela não representa o commit.
+ */
+export function hasLocalChanges(): boolean {
+  try {
+    const output = execFileSync('git', ['status', '--porcelain', '--', 'src', 'WAProto'], {
+      cwd: WHAILEYS_DIR,
+      encoding: 'utf-8',
+      stdio: 'pipe',
+    })
+    return output.trim().length > 0
+  } catch {
+    return false
+  }
+}
+
+// Sem `-` inicial: a ref nunca pode ser interpretada como opção do git
+const SAFE_REF_PATTERN = /^(?!-)[\w./@^~{}-]+$/
+const WORKTREES_DIR = path.join(CACHE_DIR, 'worktrees')
+
+/**
+ * Resolve uma ref (tag, branch, SHA) para o SHA do commit no clone local. Como o clone é
+ * raso, refs ausentes são buscadas do remoto antes de desistir.
+ */
+export function resolveRef(ref: string): string | null {
+  if (!SAFE_REF_PATTERN.test(ref)) return null
+
+  const revParse = (target: string): string | null => {
+    try {
+      return execFileSync('git', ['rev-parse', '--verify', '--end-of-options', `${target}^{commit}`], {
+        cwd: WHAILEYS_DIR,
+        encoding: 'utf-8',
+        stdio: 'pipe',
+      }).trim()
+    } catch {
+      return null
+    }
+  }
+
+  const local = revParse(ref)
+  if (local) return local
+
+  try {
+    execFileSync('git', ['fetch', '--depth', '1', '--', 'origin', ref], { cwd: WHAILEYS_DIR, stdio: 'pipe' })
+    return revParse('FETCH_HEAD')
+  } catch {
+    return null
+  }
+}
+
+/** Cria (ou reaproveita) um worktree destacado do clone local no commit informado */
+export function addWorktree(sha: string): string | null {
+  const dir = path.join(WORKTREES_DIR, sha)
+  if (fs.existsSync(path.join(dir, 'src'))) return dir
+
+  try {
+    fs.mkdirSync(WORKTREES_DIR, { recursive: true })
+    execFileSync('git', ['worktree', 'prune'], { cwd: WHAILEYS_DIR, stdio: 'pipe' })
+    execFileSync('git', ['worktree', 'add', '--detach', '--', dir, sha], { cwd: WHAILEYS_DIR, stdio: 'pipe' })
+
+    // Sem as dependências (ex: @types/node) tipos como Buffer viram `any` e poluem comparações
+    const nodeModules = path.join(WHAILEYS_DIR, 'node_modules')
+    if (fs.existsSync(nodeModules)) fs.symlinkSync(nodeModules, path.join(dir, 'node_modules'), 'dir')
+    return dir
+  } catch (error) {
+    console.error('Erro ao criar worktree:', error)
+    return null
+  }
+}
+
+export function removeWorktree(dir: string): void {
+  try {
+    execFileSync('git', ['worktree', 'remove', '--force', '--', dir], { cwd: WHAILEYS_DIR, stdio: 'pipe' })
+  } catch {
+    fs.rmSync(dir, { recursive: true, force: true })
+  }
+}
+
+export interface LineHistoryEntry extends CommitInfo {
+  /** Trecho antes do commit (vazio quando o commit criou o trecho) */
+  before: string[]
+  after: string[]
+  /** Apenas as linhas alteradas, prefixadas com `-` ou `+` */
+  diff: string[]
+}
+
+const SAFE_PATH_PATTERN = /^[\w./@-]+$/
+
+/**
+ * Commits que tocaram um intervalo de linhas de um arquivo (`git log -L`), do mais recente
+ * para o mais antigo, com o trecho antes e depois de cada commit.
+ */
+export function getLineHistory(
+  file: string,
+  startLine: number,
+  endLine: number,
+  maxCount = 10,
+): LineHistoryEntry[] | null {
+  if (!SAFE_PATH_PATTERN.test(file)) return null
+  const count = Math.max(1, Math.floor(maxCount) || 10)
+  const range = `${Math.floor(startLine)},${Math.floor(endLine)}:${file}`
+
+  let output: string
+  try {
+    output = execFileSync(
+      'git',
+      ['log', '--no-color', '-n', String(count), '--format=%x1e%H%x1f%aI%x1f%an%x1f%s', '-L', range],
+      { cwd: WHAILEYS_DIR, encoding: 'utf-8', stdio: 'pipe', maxBuffer: 32 * 1024 * 1024, timeout: 60_000 },
+    )
+  } catch {
+    return null
+  }
+
+  const entries: LineHistoryEntry[] = []
+  for (const chunk of output.split('\x1e').slice(1)) {
+    const [header, ...lines] = chunk.split('\n')
+    const [sha, date, author, message] = header.split('\x1f')
+    const entry: LineHistoryEntry = { sha, date, author, message, before: [], after: [], diff: [] }
+
+    let inHunk = false
+    for (const line of lines) {
+      if (line.startsWith('diff --git')) inHunk = false
+      else if (line.startsWith('@@')) inHunk = true
+      else if (!inHunk || line.startsWith('\\')) continue
+      else if (line.startsWith('+')) {
+        entry.after.push(line.slice(1))
+        entry.diff.push(line)
+      } else if (line.startsWith('-')) {
+        entry.before.push(line.slice(1))
+        entry.diff.push(line)
+      } else if (line.startsWith(' ')) {
+        entry.before.push(line.slice(1))
+        entry.after.push(line.slice(1))
+      }
+    }
+    entries.push(entry)
+  }
+  return entries
+}
+
+export function isShallowRepository(): boolean {
+  try {
+    return (
+      execFileSync('git', ['rev-parse', '--is-shallow-repository'], {
+        cwd: WHAILEYS_DIR,
+        encoding: 'utf-8',
+        stdio: 'pipe',
+      }).trim() === 'true'
+    )
+  } catch {
+    return false
+  }
+}
+
+/** Baixa o histórico completo de um clone raso (o clone automático usa `--depth 1`) */
+export function unshallowRepository(): { success: boolean; output: string } {
+  try {
+    const output = execFileSync('git', ['fetch', '--unshallow', 'origin'], {
+      cwd: WHAILEYS_DIR,
+      encoding: 'utf-8',
+      stdio: 'pipe',
+      timeout: 300_000,
+    })
+    return { success: true, output }
+  } catch (error: unknown) {
+    return { success: false, output: error instanceof Error ? error.message : String(error) }
+  }
+}
+
 export async function ensureRepository(): Promise<{ success: boolean; path: string; error?: string }> {
   const srcPath = getWhaileysSrcPath()
   
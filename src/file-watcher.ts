@@ -0,0 +1,41 @@
+import * as fs from 'fs'
+import * as path from 'path'
+
+/**
+ * Observa recursivamente os arquivos `.ts` de `dir` e chama `onChange` com os caminhos
+ * absolutos alterados, agrupados por `debounceMs`. Retorna null se a plataforma não suportar.
+ */
+export function watchSourceFiles(
+  dir: string,
+  onChange: (files: string[]) => void,
+  debounceMs = 500,
+): fs.FSWatcher | null {
+  const pending = new Set<string>()
+  let timer: NodeJS.Timeout | null = null
+
+  try {
+    const watcher = fs.watch(dir, { recursive: true }, (_event, filename) => {
+      if (!filename || !filename.endsWith('.ts')) return
+
+      pending.add(path.join(dir, filename))
+      if (timer) clearTimeout(timer)
+      timer = setTimeout(() => {
+        const files = Array.from(pending)
+        pending.clear()
+        timer = null
+        onChange(files)
+      }, debounceMs)
+    })
+
+    watcher.on('error', (error) => {
+      console.error('Erro no watcher de arquivos:', error)
+    })
+
+    return watcher
+  } catch (error) {
+    console.error(
+      `⚠️ Watcher de arquivos indisponível: ${error instanceof Error ? error.message : String(error)}`,
+    )
+    return null
+  }
+}
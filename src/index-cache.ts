@@ -0,0 +1,108 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import * as os from 'os'
+import { ExtractedType, FileExports, PARSER_SCHEMA_VERSION } from './ast-parser.js'
+
+const CACHE_DIR = path.join(os.homedir(), '.mcp-whaileys')
+const INDEX_DIR = path.join(CACHE_DIR, 'index')
+const MAX_INDEX_FILES = 5
+
+/** Índices de refs comparadas (ex: `whaileys_diff_api`) têm um limite próprio e nunca expulsam o do HEAD */
+const REF_INDEX_DIR = path.join(INDEX_DIR, 'refs')
+const MAX_REF_INDEX_FILES = 5
+
+export interface IndexFile {
+  schemaVersion: number
+  sha: string
+  /** Extraído de uma cópia de trabalho com alterações não commitadas */
+  dirty: boolean
+  createdAt: string
+  types: ExtractedType[]
+  /** Todos os arquivos analisados (incluindo os que não exportam nada) e seus re-exports */
+  files: Record<string, FileExports>
+}
+
+function getIndexFilePath(dir: string, sha: string, dirty: boolean): string {
+  return path.join(dir, dirty ? `${sha}.dirty.json` : `${sha}.json`)
+}
+
+function pruneOldIndexes(dir: string, maxFiles: number): void {
+  const files = fs
+    .readdirSync(dir)
+    .filter((f) => f.endsWith('.json'))
+    .map((f) => ({ file: path.join(dir, f), mtime: fs.statSync(path.join(dir, f)).mtimeMs }))
+    .sort((a, b) => b.mtime - a.mtime)
+
+  for (const { file } of files.slice(maxFiles)) {
+    fs.unlinkSync(file)
+  }
+}
+
+function readIndex(dir: string, sha: string, dirty: boolean): IndexFile | null {
+  try {
+    const filePath = getIndexFilePath(dir, sha, dirty)
+    if (!fs.existsSync(filePath)) return null
+
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as IndexFile
+    if (data.schemaVersion !== PARSER_SCHEMA_VERSION || data.sha !== sha || data.dirty !== dirty) {
+      return null
+    }
+    return data
+  } catch {
+    return null
+  }
+}
+
+function writeIndex(
+  dir: string,
+  maxFiles: number,
+  sha: string,
+  types: ExtractedType[],
+  files: Record<string, FileExports>,
+  dirty: boolean,
+): void {
+  try {
+    fs.mkdirSync(dir, { recursive: true })
+    const data: IndexFile = {
+      schemaVersion: PARSER_SCHEMA_VERSION,
+      sha,
+      dirty,
+      createdAt: new Date().toISOString(),
+      types,
+      files,
+    }
+    const filePath = getIndexFilePath(dir, sha, dirty)
+    const tmpPath = `${filePath}.${process.pid}.tmp`
+    fs.writeFileSync(tmpPath, JSON.stringify(data), 'utf-8')
+    fs.renameSync(tmpPath, filePath)
+    pruneOldIndexes(dir, maxFiles)
+  } catch (error) {
+    console.error('Erro ao salvar índice:', error)
+  }
+}
+
+/**
+ * Carrega o índice de um commit. Índices da cópia de trabalho com alterações ficam em uma
+ * chave separada (`dirty`), para não serem confundidos com o conteúdo do commit.
+ */
+export function loadIndex(sha: string, dirty = false): IndexFile | null {
+  return readIndex(INDEX_DIR, sha, dirty)
+}
+
+export function saveIndex(
+  sha: string,
+  types: ExtractedType[],
+  files: Record<string, FileExports>,
+  dirty = false,
+): void {
+  writeIndex(INDEX_DIR, MAX_INDEX_FILES, sha, types, files, dirty)
+}
+
+/** Índice de uma ref extraída de um worktree temporário */
+export function loadRefIndex(sha: string): IndexFile | null {
+  return readIndex(REF_INDEX_DIR, sha, false)
+}
+
+export function saveRefIndex(sha: string, types: ExtractedType[], files: Record<string, FileExports>): void {
+  writeIndex(REF_INDEX_DIR, MAX_REF_INDEX_FILES, sha, types, files, false)
+}
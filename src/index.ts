@@ -12,11 +12,29 @@ import * as path from 'path'
 import { fileURLToPath } from 'url'
 import {
   AstParser,
+  getDeprecationReplacement,
+  DeprecatedSymbol,
   ExtractedType,
   ExtractedKind,
   PropertyInfo,
+  ParameterInfo,
+  JsDocTags,
   LibraryStatistics,
-  DependencyInfo,
+  DependencyAnalysis,
+  ImportEdge,
+  ImportCycle,
+  ExpandedTypeNode,
+  SymbolReference,
+  SocketApi,
+  SocketMember,
+  EventInfo,
+  EventSiteKind,
+  SignatureMatch,
+  SignatureMatchDetail,
+  UsageExample,
+  ValidationDiagnostic,
+  UnionAnalysis,
+  VariantProperty,
 } from './ast-parser.js'
 import {
   checkAndUpdate,
@@ -24,12 +42,41 @@ import {
   getRepositoryStatus,
   scheduleUpdateCheck,
   ensureRepository,
+  getLocalCommitSha,
+  hasLocalChanges,
+  getChangedFiles,
+  resolveRef,
+  addWorktree,
+  removeWorktree,
+  getLineHistory,
+  isShallowRepository,
+  unshallowRepository,
+  LineHistoryEntry,
+  UpdateResult,
 } from './auto-updater.js'
+import {
+  ProtoParser,
+  ProtoDefinition,
+  ProtoField,
+  ProtoFieldMatch,
+  ProtoDeprecation,
+} from './proto-parser.js'
+import { loadIndex, loadRefIndex, saveIndex, saveRefIndex } from './index-cache.js'
+import { SearchField, SearchMatch } from './search-index.js'
+import { diffApi, ApiChange } from './api-diff.js'
+import { watchSourceFiles } from './file-watcher.js'
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
 
 let WHAILEYS_PATH = process.env.WHAILEYS_PATH || ''
+let sharedParser: AstParser | null = null
+let sharedProtoParser: ProtoParser | null = null
+
+// Versão publicada do pacote (dist/index.js → ../package.json)
+const SERVER_VERSION: string = JSON.parse(
+  fs.readFileSync(path.join(__dirname, '..', 'package.json'), 'utf-8'),
+).version
 
 const CATEGORY_EMOJI: Record<ExtractedKind, string> = {
   interface: '📋',
@@ -56,7 +103,7 @@ const CATEGORY_LABELS: Record<ExtractedKind, string> = {
 const mcpServer = new McpServer(
   {
     name: 'mcp-whaileys',
-    version: '1.1.0',
+    version: SERVER_VERSION,
   },
   {
     capabilities: {
@@ -66,6 +113,116 @@ const mcpServer = new McpServer(
   },
 )
 
+function getParser(): AstParser {
+  if (sharedParser) return sharedParser
+
+  sharedParser = new AstParser(WHAILEYS_PATH)
+  const sha = getLocalCommitSha()
+  const dirty = sha ? hasLocalChanges() : false
+  // Com alterações locais, parte do índice da própria cópia de trabalho ou, na falta dele, do commit
+  const cached = sha ? ((dirty && loadIndex(sha, true)) || loadIndex(sha)) : null
+
+  if (cached) {
+    sharedParser.setCachedTypes(cached.types, cached.files)
+    const staleFiles = sharedParser.findStaleFiles(Date.parse(cached.createdAt))
+    if (staleFiles.length > 0 && sharedParser.refreshFiles(staleFiles) > 0) {
+      saveIndex(cached.sha, sharedParser.extractAllTypes(), sharedParser.getIndexedFiles(), dirty)
+    }
+    return sharedParser
+  }
+
+  const types = sharedParser.extractAllTypes()
+  if (sha) saveIndex(sha, types, sharedParser.getIndexedFiles(), dirty)
+  return sharedParser
+}
+
+/**
+ * Índice de símbolos de uma ref qualquer do repositório: reaproveita o índice em disco do
+ * commit (nunca o da cópia de trabalho com alterações) ou extrai a partir de um git worktree
+ * temporário, guardando o resultado entre os índices de refs.
+ */
+function getTypesAtRef(ref: string): { sha: string; types: ExtractedType[] } {
+  const sha = resolveRef(ref)
+  if (!sha) throw new Error(`Ref "${ref}" não encontrada no repositório whaileys`)
+
+  const cached = loadIndex(sha) ?? loadRefIndex(sha)
+  if (cached) return { sha, types: cached.types }
+
+  const worktree = addWorktree(sha)
+  if (!worktree) throw new Error(`Não foi possível criar um worktree para "${ref}"`)
+  try {
+    const parser = new AstParser(path.join(worktree, 'src'))
+    const types = parser.extractAllTypes()
+    saveRefIndex(sha, types, parser.getIndexedFiles())
+    return { sha, types }
+  } finally {
+    removeWorktree(worktree)
+  }
+}
+
+function getProtoParser(): ProtoParser {
+  if (!sharedProtoParser) {
+    sharedProtoParser = new ProtoParser(WHAILEYS_PATH)
+  }
+  return sharedProtoParser
+}
+
+function reindexFiles(files: string[]): void {
+  if (!sharedParser) return
+
+  const refreshed = sharedParser.refreshFiles(files)
+  if (refreshed === 0) return
+
+  const sha = getLocalCommitSha()
+  if (sha) saveIndex(sha, sharedParser.extractAllTypes(), sharedParser.getIndexedFiles(), hasLocalChanges())
+  console.error(`🔄 Reindexados ${refreshed} arquivo(s)`)
+}
+
+function handleRepositoryUpdate(result: UpdateResult): void {
+  if (!result.updated) return
+  sharedProtoParser = null
+
+  const changedFiles =
+    result.previousSha && result.currentSha
+      ? getChangedFiles(result.previousSha, result.currentSha)
+      : null
+
+  if (changedFiles) {
+    reindexFiles(changedFiles)
+  } else {
+    sharedParser = null
+  }
+}
+
+const SEARCH_FIELD_LABELS: Record<SearchField, string> = {
+  name: 'nome',
+  alias: 'alias',
+  property: 'propriedade',
+  parameter: 'parâmetro',
+  member: 'membro',
+  file: 'arquivo',
+  docs: 'docs',
+}
+
+function formatSearchMatch(match: SearchMatch): string {
+  const term = match.term === match.matched ? match.term : `${match.term}→${match.matched}${match.fuzzy ? ' ~' : '…'}`
+  const value = match.field === 'docs' ? '' : ` \`${match.value}\``
+  return `${term} em ${SEARCH_FIELD_LABELS[match.field]}${value}`
+}
+
+function filterByVisibility(types: ExtractedType[], somentePublico?: boolean): ExtractedType[] {
+  return somentePublico ? types.filter((t) => t.visibility !== 'internal') : types
+}
+
+/**
+ * Declarações aninhadas em namespaces (ex: milhares de `proto.*`) só entram nas listagens
+ * quando um módulo é pedido explicitamente; continuam acessíveis via busca pelo nome qualificado.
+ */
+function filterNamespaceMembers(types: ExtractedType[], modulo?: string): ExtractedType[] {
+  if (modulo) return types
+  return types.filter((t) => t.kind === 're-export' || !t.name.includes('.'))
+}
+
 function getDirectoryTree(dirPath: string, prefix = ''): string {
   let result = ''
   const items = fs.readdirSync(dirPath, { withFileTypes: true })
@@ -90,23 +247,88 @@ function getDirectoryTree(dirPath: string, prefix = ''): string {
 }
 
 function formatProperty(prop: PropertyInfo): string {
+  const modifiers = [
+    prop.scope === 'protected' ? 'protected ' : '',
+    prop.isStatic ? 'static ' : '',
+    prop.isAbstract ? 'abstract ' : '',
+  ].join('')
+
+  if (prop.isConstructor) {
+    return `${modifiers}constructor(${prop.parameters?.join(', ') || ''})`
+  }
   if (prop.isMethod || prop.isCallSignature) {
     const params = prop.parameters?.join(', ') || ''
-    return `${prop.name}(${params}): ${prop.returnType || prop.type}`
+    const optional = prop.optional ? '?' : ''
+    return `${modifiers}${prop.name}${optional}(${params}): ${prop.returnType || prop.type}`
   }
   if (prop.isIndexSignature) {
     return `${prop.name}: ${prop.type}`
   }
+  if (prop.accessor) {
+    return `${modifiers}${prop.accessor} ${prop.name}: ${prop.type}`
+  }
   const optional = prop.optional ? '?' : ''
   const readonly = prop.readonly ? 'readonly ' : ''
-  return `${readonly}${prop.name}${optional}: ${prop.type}`
+  const parameterProperty = prop.isParameterProperty ? ' (parameter property)' : ''
+  return `${modifiers}${readonly}${prop.name}${optional}: ${prop.type}${parameterProperty}`
+}
+
+function formatParameterInfos(params: ParameterInfo[], tags: JsDocTags | undefined, indent = ''): string {
+  let result = ''
+  for (const param of params) {
+    const description = tags?.params?.find((p) => p.name === param.name)?.description
+    const rest = param.rest ? '...' : ''
+    result += `${indent}- \`${rest}${param.name}${param.optional && !param.defaultValue ? '?' : ''}: ${param.type}\``
+    if (param.defaultValue) result += ` (default: \`${param.defaultValue}\`)`
+    if (description) result += ` — ${description}`
+    result += '\n'
+  }
+  return result
+}
+
+function formatPropertyDetails(prop: PropertyInfo): string {
+  let result = `- \`${formatProperty(prop)}\``
+  if (prop.tags?.defaultValue) result += ` (default: \`${prop.tags.defaultValue}\`)`
+  if (prop.tags?.deprecated !== undefined) {
+    result += ` ⚠️ deprecated${prop.tags.deprecated ? `: ${prop.tags.deprecated}` : ''}`
+    const replacement = getDeprecationReplacement(prop.tags)
+    if (replacement && !prop.tags.deprecated.includes(replacement)) result += ` → use \`${replacement}\``
+  }
+  result += '\n'
+  if (prop.docs) result += `  > ${prop.docs}\n`
+  if (prop.tags) result += formatJsDocExtras(prop.tags, '  ')
+  return result
+}
+
+function formatJsDocExtras(tags: JsDocTags, indent = ''): string {
+  let result = ''
+  for (const example of tags.examples ?? []) {
+    result += `${indent}**Exemplo:**\n${indent}\`\`\`typescript\n`
+    result += example.split('\n').map((line) => indent + line).join('\n')
+    result += `\n${indent}\`\`\`\n`
+  }
+  if (tags.see && tags.see.length > 0) {
+    result += `${indent}**Veja também:** ${tags.see.map((s) => `\`${s}\``).join(', ')}\n`
+  }
+  return result
 }
 
-function formatExtractedType(type: ExtractedType, detailed = false): string {
+function formatExtractedType(type: ExtractedType, detailed = false, includeProtected = false): string {
   let result = `### ${CATEGORY_EMOJI[type.kind]} ${type.kind}: \`${type.name}\`\n\n`
 
   result += `**Arquivo:** \`${type.file}\`${type.lineNumber ? ` (linha ${type.lineNumber})` : ''}\n`
-  result += `**Módulo:** ${type.module}\n\n`
+  result += `**Módulo:** ${type.module}\n`
+  if (type.visibility) {
+    result += `**Visibilidade:** ${type.visibility === 'public' ? '🌐 pública' : '🔒 interna'}\n`
+  }
+  result += '\n'
+
+  if (type.tags?.deprecated !== undefined) {
+    const replacement = getDeprecationReplacement(type.tags)
+    result += `> ⚠️ **Deprecated**${type.tags.deprecated ? `: ${type.tags.deprecated}` : ''}`
+    if (replacement && !type.tags.deprecated.includes(replacement)) result += ` → use \`${replacement}\``
+    result += '\n\n'
+  }
 
   if (type.docs) {
     result += `> ${type.docs}\n\n`
@@ -115,6 +337,10 @@ function formatExtractedType(type: ExtractedType, detailed = false): string {
   result += '```typescript\n' + type.signature + '\n```\n\n'
 
   if (detailed) {
+    if (type.tags?.defaultValue) {
+      result += `**Default:** \`${type.tags.defaultValue}\`\n\n`
+    }
+
     if (type.typeParameters && type.typeParameters.length > 0) {
       result += '**Type Parameters:**\n'
       for (const tp of type.typeParameters) {
@@ -126,6 +352,29 @@ function formatExtractedType(type: ExtractedType, detailed = false): string {
       result += '\n'
     }
 
+    if (type.overloads && type.overloads.length > 0) {
+      result += `**Overloads (${type.overloads.length}):**\n\n`
+      type.overloads.forEach((overload, index) => {
+        result += `${index + 1}. \`${overload.signature}\`\n`
+        if (overload.docs) result += `   > ${overload.docs}\n`
+        result += formatParameterInfos(overload.parameters, type.tags, '   ')
+      })
+      result += '\n'
+    } else if (type.parameters && type.parameters.length > 0) {
+      result += '**Parâmetros:**\n'
+      result += formatParameterInfos(type.parameters, type.tags)
+      result += '\n'
+    }
+
+    if (type.returnType && !type.overloads) {
+      if (type.returnType.length > 300) {
+        result += `**Retorno:** \`${type.returnType.substring(0, 300)}...\`\n`
+        result += `_Tipo completo: \`whaileys_expandir_tipo({ nome: "${type.name}" })\`_\n\n`
+      } else {
+        result += `**Retorno:** \`${type.returnType}\`${type.tags?.returns ? ` — ${type.tags.returns}` : ''}\n\n`
+      }
+    }
+
     if (type.extends && type.extends.length > 0) {
       result += `**Extends:** ${type.extends.map((e) => `\`${e}\``).join(', ')}\n\n`
     }
@@ -134,26 +383,54 @@ function formatExtractedType(type: ExtractedType, detailed = false): string {
       result += `**Implements:** ${type.implements.map((i) => `\`${i}\``).join(', ')}\n\n`
     }
 
-    if (type.properties && type.properties.length > 0) {
+    if (type.reExportChains && type.reExportChains.length > 0) {
+      result += '**Caminhos de export:**\n'
+      for (const chain of type.reExportChains) {
+        result += `- \`${chain}\`\n`
+      }
+      result += '\n'
+    }
+
+    if (type.exportedAs && type.exportedAs.length > 0) {
+      result += `**Exportado como:** ${type.exportedAs.map((a) => `\`${a}\``).join(', ')}\n\n`
+    }
+
+    if (type.resolvedExports && type.resolvedExports.length > 0) {
+      result += '**Resolve para:**\n'
+      for (const resolved of type.resolvedExports.slice(0, 20)) {
+        result += `- \`${resolved}\`\n`
+      }
+      if (type.resolvedExports.length > 20) {
+        result += `- ... e mais ${type.resolvedExports.length - 20} símbolos\n`
+      }
+      result += '\n'
+    }
+
+    const isVisible = (member: PropertyInfo) => includeProtected || member.scope !== 'protected'
+    const properties = type.properties?.filter(isVisible)
+    const methods = type.methods?.filter(isVisible)
+
+    if (properties && properties.length > 0) {
       result += '**Properties:**\n'
-      for (const prop of type.properties.slice(0, 15)) {
-        result += `- \`${formatProperty(prop)}\`\n`
-        if (prop.docs) result += `  > ${prop.docs}\n`
+      for (const prop of properties.slice(0, 15)) {
+        result += formatPropertyDetails(prop)
       }
-      if (type.properties.length > 15) {
-        result += `- ... e mais ${type.properties.length - 15} propriedades\n`
+      if (properties.length > 15) {
+        result += `- ... e mais ${properties.length - 15} propriedades\n`
       }
       result += '\n'
     }
 
-    if (type.methods && type.methods.length > 0) {
+    if (methods && methods.length > 0) {
       result += '**Methods:**\n'
-      for (const method of type.methods.slice(0, 15)) {
-        result += `- \`${formatProperty(method)}\`\n`
-        if (method.docs) result += `  > ${method.docs}\n`
+      for (const method of methods.slice(0, 15)) {
+        result += formatPropertyDetails(method)
+        for (const param of method.tags?.params ?? []) {
+          result += `  - \`${param.name}\` — ${param.description}\n`
+        }
       }
-      if (type.methods.length > 15) {
-        result += `- ... e mais ${type.methods.length - 15} métodos\n`
+      if (methods.length > 15) {
+        result += `- ... e mais ${methods.length - 15} métodos\n`
       }
       result += '\n'
     }
@@ -172,6 +449,353 @@ function formatExtractedType(type: ExtractedType, detailed = false): string {
     if (type.value) {
       result += `**Value:** \`${type.value}\`\n\n`
     }
+
+    if (type.tags) {
+      const extras = formatJsDocExtras(type.tags)
+      if (extras) result += extras + '\n'
+    }
+  }
+
+  return result
+}
+
+function formatExpandedType(node: ExpandedTypeNode, indent = ''): string {
+  const optional = node.optional ? '?' : ''
+  let result =
+    node.name === '|'
+      ? `${indent}- \`| ${node.type}\``
+      : `${indent}- \`${node.name}${optional}: ${node.type}\``
+  if (node.reference && node.reference !== node.type) result += ` → **${node.reference}**`
+  if (node.file) result += ` _(${node.file})_`
+  if (node.circular) result += ' 🔁 *(referência circular)*'
+  if (node.deprecated !== undefined) {
+    result += ` ⚠️ deprecated${node.deprecated ? `: ${node.deprecated}` : ''}`
+  }
+  result += '\n'
+  if (node.docs) result += `${indent}  > ${node.docs.split('\n')[0]}\n`
+
+  for (const child of node.children ?? []) {
+    result += formatExpandedType(child, indent + '  ')
+  }
+  if (node.omittedProperties) {
+    result += `${indent}  - ... e mais ${node.omittedProperties} propriedades\n`
+  }
+
+  return result
+}
+
+const EVENT_SITE_LABELS: Record<EventSiteKind, string> = {
+  emit: '📤 Emitido em',
+  listen: '👂 Escutado em',
+  process: '📦 Processado em lote em',
+  other: '🔗 Outras menções',
+}
+
+function formatEventInfo(event: EventInfo, includeOther: boolean): string {
+  let result = `## ⚡ \`${event.name}\`\n\n`
+  if (event.docs) result += `> ${event.docs.split('\n').join('\n> ')}\n\n`
+
+  result += `**Payload:** \`${event.payload.type}\``
+  if (event.payload.reference && event.payload.reference !== event.payload.type) {
+    result += ` → **${event.payload.reference}**`
+  }
+  result += '\n\n'
+  for (const child of event.payload.children ?? []) {
+    result += formatExpandedType(child)
+  }
+  if (event.payload.omittedProperties) {
+    result += `- ... e mais ${event.payload.omittedProperties} propriedades\n`
+  }
+  if (event.payload.children && event.payload.children.length > 0) result += '\n'
+
+  const kinds: EventSiteKind[] = includeOther ? ['emit', 'listen', 'process', 'other'] : ['emit', 'listen', 'process']
+  for (const kind of kinds) {
+    const sites = event.sites.filter((site) => site.kind === kind)
+    if (sites.length === 0) continue
+    result += `**${EVENT_SITE_LABELS[kind]} (${sites.length}):**\n`
+    for (const site of sites) {
+      result += `- \`${site.file}:${site.line}\` em \`${site.enclosing}\`: \`${site.snippet}\`\n`
+    }
+    result += '\n'
+  }
+
+  if (!event.sites.some((site) => site.kind === 'emit')) {
+    result += '*Nenhuma chamada direta a `ev.emit` encontrada em src/.*\n\n'
+  }
+
+  return result
+}
+
+function formatDeprecatedSymbol(entry: DeprecatedSymbol): string {
+  let result = `- ${CATEGORY_EMOJI[entry.declarationKind]} **\`${entry.name}\`**`
+  result += ` - \`${entry.file}\`${entry.line ? ` (linha ${entry.line})` : ''}\n`
+  if (entry.message) result += `  > ${entry.message}\n`
+  if (entry.replacement) result += `  ➡️ Substituto sugerido: \`${entry.replacement}\`\n`
+  return result
+}
+
+function formatProtoDeprecation(entry: ProtoDeprecation): string {
+  const name = entry.member ? `${entry.definition.fullName}.${entry.member}` : entry.definition.fullName
+  const label: Record<ProtoDeprecation['kind'], string> = {
+    message: 'mensagem',
+    enum: 'enum',
+    field: 'campo',
+    'enum-value': 'valor de enum',
+  }
+  return `- 🧬 **\`${name}\`** (${label[entry.kind]}) → \`${entry.definition.tsName}\`\n`
+}
+
+function formatSocketMember(member: SocketMember): string {
+  const optional = member.optional ? '?' : ''
+  let result = `- **\`${member.name}${optional}\`**: \`${member.type}\``
+  if (member.line) result += ` _(${member.file}:${member.line})_`
+  result += '\n'
+  if (member.docs) result += `  > ${member.docs.split('\n').join('\n  > ')}\n`
+  return result
+}
+
+function formatSocketApi(api: SocketApi, members: SocketMember[]): string {
+  let result = `# 🔌 API do socket: \`${api.factory.name}\`\n\n`
+  result += `**Arquivo:** \`${api.factory.file}\`${api.factory.lineNumber ? ` (linha ${api.factory.lineNumber})` : ''}\n`
+  result += `**Membros:** ${members.length} (${members.filter((m) => m.isMethod).length} métodos)\n\n`
+
+  result += '## 🧱 Camadas\n\n'
+  result += api.layers.map((l) => `\`${l.factory}\``).join(' → ') + '\n\n'
+
+  const byFactory = new Map<string, SocketMember[]>()
+  for (const member of members) {
+    if (!byFactory.has(member.factory)) byFactory.set(member.factory, [])
+    byFactory.get(member.factory)!.push(member)
+  }
+
+  const order = [...api.layers.map((l) => l.factory), ...byFactory.keys()]
+  for (const factory of new Set(order)) {
+    const factoryMembers = byFactory.get(factory)
+    if (!factoryMembers) continue
+    const layer = api.layers.find((l) => l.factory === factory)
+    result += `## ${factory}${layer ? ` (\`${layer.file}\`)` : ''}\n\n`
+    for (const member of factoryMembers) {
+      result += formatSocketMember(member)
+    }
+    result += '\n'
+  }
+
+  return result
+}
+
+function formatSignatureMatchDetail(detail: SignatureMatchDetail): string {
+  const compatibility = detail.exact ? 'idêntico' : 'compatível'
+  switch (detail.role) {
+    case 'parameter':
+      return `parâmetro \`${detail.name}: ${detail.type}\` (${compatibility})`
+    case 'return':
+      return `retorno \`${detail.type}\` (${compatibility}${detail.viaPromise ? ', via Promise' : ''})`
+    case 'property':
+      return `propriedade \`${detail.name}: ${detail.type}\` (${compatibility})`
+  }
+}
+
+function formatSignatureMatch(match: SignatureMatch): string {
+  const type = match.type
+  let result = `- ${CATEGORY_EMOJI[type.kind]} **\`${type.name}\`** (${type.kind}) - \`${type.file}\`${type.tags?.deprecated !== undefined ? ' ⚠️ deprecated' : ''}\n`
+  result += `  \`${match.signature}\`\n`
+  result += `  ✓ ${match.details.map(formatSignatureMatchDetail).join(' · ')}\n`
+  return result
+}
+
+function formatUsageExample(example: UsageExample): string {
+  const emoji = example.source === 'example' ? '📘' : '🧪'
+  let result = `### ${emoji} ${example.file}:${example.line} — em \`${example.enclosing}\`${example.kind === 'call' ? '' : ' (referência)'}\n\n`
+  result += '```typescript\n' + example.snippet + '\n```\n'
+  return result
+}
+
+function formatValidationDiagnostic(diagnostic: ValidationDiagnostic): string {
+  let result = `- **L${diagnostic.line}:${diagnostic.column}** (TS${diagnostic.code}) ${diagnostic.message.split('\n').join('\n  ')}\n`
+  if (diagnostic.related) {
+    const related = diagnostic.related
+    result += `  ↳ \`${related.name}\` em \`${related.file}:${related.line}\`: \`${related.text}\`\n`
+  }
+  return result
+}
+
+const UNION_KIND_LABELS: Record<UnionAnalysis['kind'], string> = {
+  union: 'união',
+  intersection: 'interseção',
+  object: 'objeto (não é união)',
+}
+
+function formatVariantProperties(properties: VariantProperty[], optional: boolean): string {
+  return properties.map((p) => `\`${p.name}${optional ? '?' : ''}: ${p.type}\``).join(', ')
+}
+
+function formatUnionAnalysis(analysis: UnionAnalysis, maxVariants: number): string {
+  const { type, variants } = analysis
+  let result = `# 🔀 Variantes de \`${type.name}\`\n\n`
+  result += `**Arquivo:** \`${type.file}\`\n`
+  result += `**Tipo:** ${UNION_KIND_LABELS[analysis.kind]}`
+  if (analysis.kind !== 'object') {
+    result += ` com ${variants.length} ${analysis.kind === 'intersection' ? 'partes' : 'variantes'}`
+  }
+  result += '\n'
+  if (analysis.discriminants.length > 0) {
+    result += `**Discriminantes:** ${analysis.discriminants.map((d) => `\`${d}\``).join(', ')}\n`
+  }
+  if (analysis.common.length > 0 && variants.length > 1) {
+    result += `**Comuns a todas:** ${analysis.common.map((c) => `\`${c}\``).join(', ')}\n`
+  }
+  result += '\n'
+
+  variants.slice(0, maxVariants).forEach((variant, index) => {
+    result += `## ${index + 1}. \`${variant.label}\`\n\n`
+    if (variant.required.length === 0 && variant.optional.length === 0) return
+    if (variant.exclusiveKeys.length > 0 && variants.length > 1) {
+      result += `- **Identificada por:** ${variant.exclusiveKeys.map((k) => `\`${k}\``).join(', ')}\n`
+    }
+    if (variant.required.length > 0) result += `- **Obrigatórias:** ${formatVariantProperties(variant.required, false)}\n`
+    const optional = variant.optional.filter((p) => !analysis.common.includes(p.name) || variants.length === 1)
+    if (optional.length > 0) result += `- **Opcionais:** ${formatVariantProperties(optional, true)}\n`
+    result += '\n'
+  })
+
+  if (variants.length > maxVariants) {
+    result += `_... e mais ${variants.length - maxVariants} variantes_\n\n`
+  }
+
+  if (analysis.shared.length > 0) {
+    result += '## 🔗 Campos compartilhados\n\n'
+    for (const shared of analysis.shared) {
+      result += `- \`${shared.name}\` — ${shared.variants.map((i) => `${i + 1}. \`${variants[i].label}\``).join(', ')}\n`
+    }
+  }
+
+  return result
+}
+
+function formatApiChange(change: ApiChange): string {
+  let result = `- ${CATEGORY_EMOJI[change.declarationKind]} **\`${change.name}${change.member ? `.${change.member}` : ''}\`** — ${change.reason} _(${change.file})_\n`
+  if (change.before && change.after) {
+    result += `  - antes: \`${change.before.split('\n')[0]}\`\n`
+    result += `  - depois: \`${change.after.split('\n')[0]}\`\n`
+  } else if (change.before ?? change.after) {
+    result += `  - \`${(change.before ?? change.after)!.split('\n')[0]}\`\n`
+  }
+  return result
+}
+
+const HISTORY_SIGNATURE_MAX_LINES = 6
+const HISTORY_DIFF_MAX_LINES = 8
+
+/** Primeiras linhas de código do trecho (sem JSDoc) até abrir o corpo, em uma linha só */
+function compactSignature(lines: string[]): string {
+  const signature: string[] = []
+  for (const line of lines) {
+    const trimmed = line.trim()
+    if (!trimmed || /^(\/\*|\*|\/\/)/.test(trimmed)) continue
+    signature.push(trimmed)
+    if (/(\{|=>|;)$/.test(trimmed) || signature.length >= HISTORY_SIGNATURE_MAX_LINES) break
+  }
+  const text = signature
+    .join(' ')
+    .replace(/\(\s+/g, '(')
+    .replace(/,?\s+\)/g, ')')
+    .replace(/\s*\{$/, '')
+  return text.length > 200 ? `${text.substring(0, 197)}...` : text
+}
+
+/** `shallowBoundary`: commit mais antigo de um clone raso, onde o trecho só parece ter sido criado */
+function formatLineHistoryEntry(entry: LineHistoryEntry, shallowBoundary = false): string {
+  let result = `### \`${entry.sha.substring(0, 7)}\` — ${entry.message}\n\n`
+  result += `📅 ${entry.date.substring(0, 10)} · 👤 ${entry.author}\n\n`
+
+  const before = compactSignature(entry.before)
+  const after = compactSignature(entry.after)
+  if (!before && shallowBoundary) {
+    result += `- 📍 **No início do histórico baixado:** \`${after}\`\n`
+  } else if (!before) {
+    result += `- 🆕 **Criada:** \`${after}\`\n`
+  } else if (!after) {
+    result += `- 🗑️ **Removida:** \`${before}\`\n`
+  } else if (before !== after) {
+    result += `- **Antes:** \`${before}\`\n`
+    result += `- **Depois:** \`${after}\`\n`
+  } else {
+    result += `- **Assinatura inalterada:** \`${after}\`\n`
+  }
+
+  const changed = entry.diff.filter((line) => line.substring(1).trim())
+  if (before && changed.length > 0) {
+    result += '\n```diff\n'
+    result += changed.slice(0, HISTORY_DIFF_MAX_LINES).join('\n') + '\n'
+    if (changed.length > HISTORY_DIFF_MAX_LINES) result += `# ... e mais ${changed.length - HISTORY_DIFF_MAX_LINES} linhas\n`
+    result += '```\n'
+  }
+  return result
+}
+
+function formatReferences(references: SymbolReference[]): string {
+  const byFile: Record<string, SymbolReference[]> = {}
+  for (const ref of references) {
+    if (!byFile[ref.file]) byFile[ref.file] = []
+    byFile[ref.file].push(ref)
+  }
+
+  let result = ''
+  for (const [file, refs] of Object.entries(byFile)) {
+    result += `## 📄 ${file} (${refs.length})\n\n`
+    for (const ref of refs) {
+      const kind = ref.kind === 'usage' ? '' : ` [${ref.kind}]`
+      result += `- **L${ref.line}** em \`${ref.enclosing}\`${kind}: \`${ref.snippet}\`\n`
+    }
+    result += '\n'
+  }
+  return result
+}
+
+function formatProtoField(field: ProtoField): string {
+  const type = field.mapKeyType ? `map<${field.mapKeyType}, ${field.type}>` : field.type
+  const flags = [field.oneof ? `oneof ${field.oneof}` : '', field.deprecated ? '⚠️ deprecated' : '']
+    .filter(Boolean)
+    .join(', ')
+  return `| ${field.tag} | \`${field.name}\` | \`${type}\` | ${field.label} | ${flags || '-'} |`
+}
+
+function formatProtoDefinition(definition: ProtoDefinition, referencedBy: ProtoFieldMatch[] = []): string {
+  let result = `### 🧬 proto ${definition.kind}: \`${definition.fullName}\`\n\n`
+  result += `**Arquivo:** \`${definition.file}\` (linha ${definition.lineNumber})\n`
+  result += `**TypeScript:** \`${definition.tsName}\`\n`
+  if (definition.deprecated) result += '**⚠️ Deprecated**\n'
+  result += '\n'
+
+  if (definition.fields && definition.fields.length > 0) {
+    result += '| Tag | Campo | Tipo | Label | Flags |\n'
+    result += '|-----|-------|------|-------|-------|\n'
+    for (const field of definition.fields) {
+      result += formatProtoField(field) + '\n'
+    }
+    result += '\n'
+  }
+
+  if (definition.values && definition.values.length > 0) {
+    result += '**Valores:**\n'
+    for (const value of definition.values) {
+      result += `- \`${value.name} = ${value.value}\`${value.deprecated ? ' ⚠️ deprecated' : ''}\n`
+    }
+    result += '\n'
+  }
+
+  if (definition.nested.length > 0) {
+    result += `**Definições aninhadas:** ${definition.nested.map((n) => `\`${n}\``).join(', ')}\n\n`
+  }
+
+  if (referencedBy.length > 0) {
+    result += `**Usado por (${referencedBy.length}):** `
+    result += referencedBy
+      .slice(0, 15)
+      .map((r) => `\`${r.message.fullName}.${r.field.name}\`${r.field.deprecated ? ' ⚠️' : ''}`)
+      .join(', ')
+    if (referencedBy.length > 15) result += `, ... (+${referencedBy.length - 15})`
+    result += '\n\n'
   }
 
   return result
@@ -214,10 +838,54 @@ function formatStatistics(stats: LibraryStatistics): string {
   return result
 }
 
-function formatDependencies(deps: DependencyInfo[]): string {
+function formatImportCycles(title: string, cycles: ImportCycle[]): string {
+  let result = `### ${title} (${cycles.length})\n\n`
+  if (cycles.length === 0) {
+    return result + '*Nenhum ciclo encontrado.*\n\n'
+  }
+  for (const cycle of cycles.slice(0, 20)) {
+    result += `- \`${cycle.path.join(' → ')}\`${cycle.typeOnly ? ' *(apenas tipos)*' : ''}\n`
+  }
+  if (cycles.length > 20) {
+    result += `- ... e mais ${cycles.length - 20} ciclos\n`
+  }
+  return result + '\n'
+}
+
+function formatImportEdges(edges: ImportEdge[]): string {
+  let result = ''
+  for (const edge of edges) {
+    const symbols = edge.symbols.slice(0, 10).map((sym) => `\`${sym}\``).join(', ')
+    const more = edge.symbols.length > 10 ? `, ... (+${edge.symbols.length - 10})` : ''
+    result += `- **${edge.from} → ${edge.to}**${edge.typeOnly ? ' *(type)*' : ''}: ${symbols}${more}\n`
+  }
+  return result + '\n'
+}
+
+function formatDependencies(analysis: DependencyAnalysis, includeFiles = false): string {
   let result = '# 🔗 Análise de Dependências\n\n'
 
-  for (const dep of deps) {
+  result += '## 📊 Grafo de Módulos\n\n'
+  result += '| Módulo | Fan-in | Fan-out | Importa de | Importado por |\n'
+  result += '|--------|--------|---------|------------|---------------|\n'
+  for (const dep of analysis.modules) {
+    result += `| **${dep.module}** | ${dep.fanIn} | ${dep.fanOut} | ${dep.imports.join(', ') || '-'} | ${dep.importedBy.join(', ') || '-'} |\n`
+  }
+  result += '\n'
+
+  result += '## ➡️ Imports entre Módulos\n\n'
+  result += formatImportEdges(analysis.moduleEdges)
+
+  result += '## 🔁 Ciclos de Import\n\n'
+  result += formatImportCycles('Entre módulos', analysis.moduleCycles)
+  result += formatImportCycles('Entre arquivos', analysis.fileCycles)
+
+  if (includeFiles) {
+    result += `## 📄 Imports entre Arquivos (${analysis.fileEdges.length})\n\n`
+    result += formatImportEdges(analysis.fileEdges)
+  }
+
+  for (const dep of analysis.modules) {
     result += `## 📁 ${dep.module}\n\n`
 
     if (dep.exports.length > 0) {
@@ -287,6 +955,11 @@ mcpServer.server.setRequestHandler(ListToolsRequestSchema, async () => {
               enum: ['interface', 'type', 'enum', 'function', 'class', 'variable', 'namespace', 're-export'],
               description: 'Filtrar por tipo específico de declaração.',
             },
+            somente_publico: {
+              type: 'boolean',
+              description:
+                'Mostrar apenas a API pública, alcançável a partir do entry point do pacote (default: false).',
+            },
           },
           required: [],
         },
@@ -303,86 +976,450 @@ mcpServer.server.setRequestHandler(ListToolsRequestSchema, async () => {
               description:
                 'Nome do tipo a buscar (ex: WAMessage, AuthenticationState, SocketConfig)',
             },
+            incluir_protegidos: {
+              type: 'boolean',
+              description: 'Incluir membros protected de classes, úteis para subclasses (default: false).',
+            },
+            incluir_exemplo: {
+              type: 'boolean',
+              description: 'Anexar o melhor exemplo real de uso encontrado em Example/ ou nos testes (default: false).',
+            },
           },
           required: ['nome'],
         },
       },
       {
-        name: 'whaileys_buscar_fuzzy',
+        name: 'whaileys_expandir_tipo',
         description:
-          'Busca tipos usando correspondência aproximada. Útil quando não sabe o nome exato.',
+          'Expande recursivamente um tipo, incorporando em uma única árvore todos os tipos do Whaileys referenciados pelas propriedades. Detecta referências circulares.',
         inputSchema: {
           type: 'object',
           properties: {
-            query: {
+            nome: {
               type: 'string',
-              description: 'Termo de busca (ex: "message send", "auth state", "socket config")',
+              description: 'Nome do tipo a expandir (ex: WAMessage, BaileysEventMap, SocketConfig)',
             },
-            limite: {
+            profundidade: {
               type: 'number',
-              description: 'Número máximo de resultados (default: 20)',
+              description: 'Quantos níveis de tipos referenciados expandir (default: 3)',
+            },
+            max_propriedades: {
+              type: 'number',
+              description: 'Número máximo de propriedades exibidas por nível (default: 25)',
             },
           },
-          required: ['query'],
+          required: ['nome'],
         },
       },
       {
-        name: 'whaileys_listar_exports',
+        name: 'whaileys_avaliar_tipo',
         description:
-          'Lista todos os exports públicos da biblioteca, agrupados por módulo e categoria.',
+          "Avalia uma expressão de tipo TypeScript no contexto do whaileys e mostra o tipo resolvido pelo checker com seus membros. Útil para tipos derivados e genéricos (ex: Parameters<ReturnType<typeof makeWASocket>['sendMessage']>[2], BaileysEventMap['messages.upsert'], Partial<SocketConfig>).",
         inputSchema: {
           type: 'object',
-          properties: {},
-          required: [],
+          properties: {
+            expressao: {
+              type: 'string',
+              description: 'Expressão de tipo. Nomes exportados pelo whaileys podem ser usados diretamente.',
+            },
+            profundidade: {
+              type: 'number',
+              description: 'Quantos níveis de tipos referenciados expandir (default: 2)',
+            },
+            max_propriedades: {
+              type: 'number',
+              description: 'Número máximo de propriedades exibidas por nível (default: 25)',
+            },
+          },
+          required: ['expressao'],
         },
       },
       {
-        name: 'whaileys_categorias',
+        name: 'whaileys_socket_api',
         description:
-          'Lista declarações de uma categoria específica (interfaces, types, enums, functions, classes, variables, namespaces).',
+          'Lista todos os membros do objeto socket retornado por makeWASocket (sendMessage, groupMetadata, ev, authState, ...) com assinatura, JSDoc e a camada/arquivo que define cada um.',
         inputSchema: {
           type: 'object',
           properties: {
-            categoria: {
+            membro: {
               type: 'string',
-              enum: ['interface', 'type', 'enum', 'function', 'class', 'variable', 'namespace', 're-export'],
-              description: 'Categoria de declarações para listar.',
+              description: 'Filtra membros cujo nome contém o texto (ex: group, send)',
             },
-            modulo: {
+            camada: {
               type: 'string',
-              description: 'Filtrar por módulo específico (opcional).',
+              description: 'Mostra apenas os membros definidos por uma camada (ex: makeGroupsSocket)',
+            },
+            fabrica: {
+              type: 'string',
+              description: 'Fábrica de socket a analisar (default: makeWASocket)',
             },
           },
-          required: ['categoria'],
         },
       },
       {
-        name: 'whaileys_constantes',
+        name: 'whaileys_eventos',
         description:
-          'Lista todas as constantes e variáveis exportadas da biblioteca (configurações, defaults, etc).',
+          'Catálogo de eventos do BaileysEventMap (connection.update, messages.upsert, creds.update, ...): payload expandido e os pontos de src/ que emitem, escutam ou processam cada evento.',
         inputSchema: {
           type: 'object',
           properties: {
-            modulo: {
+            evento: {
               type: 'string',
-              description: 'Filtrar por módulo específico (ex: Defaults, WABinary).',
+              description: 'Filtra eventos cujo nome contém o texto (ex: messages, connection.update)',
+            },
+            profundidade: {
+              type: 'number',
+              description: 'Profundidade de expansão do payload (default: 2 com filtro, 1 sem filtro)',
+            },
+            incluir_outras: {
+              type: 'boolean',
+              description:
+                'Incluir outras menções ao nome do evento (listas de eventos bufferizáveis, switch/case, etc). Default: false',
             },
           },
-          required: [],
         },
       },
       {
-        name: 'whaileys_hierarquia',
+        name: 'whaileys_deprecados',
         description:
-          'Mostra a hierarquia de herança de um tipo (extends/implements, pais e filhos).',
+          'Lista todos os símbolos, propriedades e métodos marcados com @deprecated no whaileys, e os campos/mensagens deprecated do WAProto, com a mensagem e o substituto sugerido.',
         inputSchema: {
           type: 'object',
           properties: {
-            nome: {
+            modulo: {
               type: 'string',
-              description: 'Nome do tipo para analisar hierarquia.',
+              description: 'Filtrar por módulo (ex: Types, Utils)',
             },
-          },
+            incluir_proto: {
+              type: 'boolean',
+              description: 'Incluir mensagens, campos e enums deprecated do WAProto.proto (default: true)',
+            },
+          },
+        },
+      },
+      {
+        name: 'whaileys_gerar_exemplo',
+        description:
+          'Gera um esqueleto TypeScript compilável que chama uma função ou método do socket (ex: downloadMediaMessage, sendMessage), com imports da raiz do pacote e valores de exemplo derivados dos tipos dos parâmetros. O trecho é compilado contra o whaileys antes de ser retornado.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            nome: {
+              type: 'string',
+              description: 'Nome da função ou do método do socket (ex: generateWAMessage, sendMessage, groupCreate)',
+            },
+          },
+          required: ['nome'],
+        },
+      },
+      {
+        name: 'whaileys_validar_codigo',
+        description:
+          'Compila um trecho TypeScript que importa do whaileys (ex: chamadas a sendMessage, groupCreate) contra o código-fonte indexado e retorna os erros de tipo com linha, mensagem e a declaração do whaileys relacionada.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            codigo: {
+              type: 'string',
+              description:
+                "Código TypeScript. Imports de 'whaileys' (e 'whaileys/lib/...') são resolvidos para o código-fonte do repositório.",
+            },
+          },
+          required: ['codigo'],
+        },
+      },
+      {
+        name: 'whaileys_variantes',
+        description:
+          'Separa uma união ou interseção (ex: AnyMessageContent, AnyMediaMessageContent) em variantes, mostrando para cada uma as chaves que a identificam, as propriedades obrigatórias e opcionais e quais campos são compartilhados entre variantes.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            nome: {
+              type: 'string',
+              description: 'Nome do tipo (ex: AnyMessageContent, AnyRegularMessageContent)',
+            },
+            limite: {
+              type: 'number',
+              description: 'Número máximo de variantes exibidas (default: 40)',
+            },
+          },
+          required: ['nome'],
+        },
+      },
+      {
+        name: 'whaileys_buscar_assinatura',
+        description:
+          'Busca por tipos (estilo Hoogle): funções que aceitam e/ou retornam determinados tipos (ex: aceita WAMessage e retorna Promise<Buffer>) ou interfaces/types com uma propriedade de nome e tipo dados. Aliases são resolvidos pelo checker do TypeScript.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            parametros: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Tipos que a função deve aceitar, cada um em algum parâmetro (ex: ["WAMessage"], ["AnyMessageContent"])',
+            },
+            retorno: {
+              type: 'string',
+              description: 'Tipo que a função deve retornar (ex: "Promise<Buffer>", "string"). Promise<T> também casa com T.',
+            },
+            propriedade: {
+              type: 'string',
+              description: 'Nome de propriedade que a interface/type deve ter (ex: jid)',
+            },
+            tipo_propriedade: {
+              type: 'string',
+              description: 'Tipo da propriedade (ex: string, proto.IMessageKey)',
+            },
+            limite: {
+              type: 'number',
+              description: 'Número máximo de resultados (default: 20)',
+            },
+            somente_publico: {
+              type: 'boolean',
+              description:
+                'Mostrar apenas a API pública, alcançável a partir do entry point do pacote (default: false).',
+            },
+          },
+        },
+      },
+      {
+        name: 'whaileys_exemplos',
+        description:
+          'Exemplos reais de uso de uma função, tipo ou método do socket (ex: sendMessage), extraídos dos scripts em Example/ e dos testes do whaileys.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            nome: {
+              type: 'string',
+              description: 'Nome do símbolo (ex: makeWASocket, downloadMediaMessage, sendMessage)',
+            },
+            limite: {
+              type: 'number',
+              description: 'Número máximo de exemplos (default: 5)',
+            },
+          },
+          required: ['nome'],
+        },
+      },
+      {
+        name: 'whaileys_diff_api',
+        description:
+          'Compara a API do whaileys entre dois commits/tags/branches (via git worktree do clone local): exports adicionados/removidos, assinaturas de funções, propriedades de interfaces (incluindo opcional→obrigatória) e membros de enums, classificando cada mudança como breaking ou não.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            de: {
+              type: 'string',
+              description: 'Ref de origem (ex: v6.4.0, um SHA, HEAD~10)',
+            },
+            para: {
+              type: 'string',
+              description: 'Ref de destino (default: HEAD)',
+            },
+            somente_breaking: {
+              type: 'boolean',
+              description: 'Mostrar apenas mudanças breaking (default: false)',
+            },
+            modulo: {
+              type: 'string',
+              description: 'Filtrar por módulo (ex: Types, Socket, WAProto)',
+            },
+            incluir_internos: {
+              type: 'boolean',
+              description: 'Incluir declarações não alcançáveis pelo entry point do pacote (default: false)',
+            },
+            limite: {
+              type: 'number',
+              description: 'Número máximo de mudanças exibidas (default: 200)',
+            },
+          },
+          required: ['de'],
+        },
+      },
+      {
+        name: 'whaileys_historico',
+        description:
+          'Histórico de mudanças de um símbolo (função, tipo, interface ou método do socket como sendMessage) a partir do git: commits que tocaram o trecho da declaração, com SHA, data, autor, mensagem e assinatura antes/depois.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            nome: {
+              type: 'string',
+              description: 'Nome do símbolo ou membro do socket (ex: sendMessage, jidEncode, SocketConfig)',
+            },
+            limite: {
+              type: 'integer',
+              minimum: 1,
+              description: 'Número máximo de commits (default: 10)',
+            },
+            aprofundar: {
+              type: 'boolean',
+              description: 'Baixar o histórico completo do remoto se o clone for raso (default: false)',
+            },
+          },
+          required: ['nome'],
+        },
+      },
+      {
+        name: 'whaileys_referencias',
+        description:
+          'Lista todos os locais em src/ que referenciam um símbolo exportado (tipo, função, constante), com arquivo, linha, função envolvente e trecho do código.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            nome: {
+              type: 'string',
+              description: 'Nome do símbolo (ex: SignalKeyStore, jidNormalizedUser)',
+            },
+            incluir_imports: {
+              type: 'boolean',
+              description: 'Incluir declarações de import/export (default: false).',
+            },
+            limite: {
+              type: 'number',
+              description: 'Número máximo de referências exibidas (default: 100)',
+            },
+          },
+          required: ['nome'],
+        },
+      },
+      {
+        name: 'whaileys_buscar_fuzzy',
+        description:
+          'Busca ranqueada (BM25) em nomes, propriedades, parâmetros, membros de enum, caminhos e docs. Quebra camelCase/snake_case ("make socket" encontra makeWASocket) e tolera erros de digitação ("mesage"). Mostra por que cada resultado casou.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            query: {
+              type: 'string',
+              description: 'Termo de busca (ex: "message send", "auth state", "socket config")',
+            },
+            limite: {
+              type: 'number',
+              description: 'Número máximo de resultados (default: 20)',
+            },
+            somente_publico: {
+              type: 'boolean',
+              description:
+                'Mostrar apenas a API pública, alcançável a partir do entry point do pacote (default: false).',
+            },
+          },
+          required: ['query'],
+        },
+      },
+      {
+        name: 'whaileys_proto',
+        description:
+          'Mostra uma mensagem ou enum do protocolo WhatsApp (WAProto.proto): campos com tag, tipo, repeated/optional, oneof, enums aninhados e quem a referencia.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            nome: {
+              type: 'string',
+              description:
+                'Nome da mensagem/enum (ex: ContextInfo, Message.ImageMessage, proto.IWebMessageInfo)',
+            },
+          },
+          required: ['nome'],
+        },
+      },
+      {
+        name: 'whaileys_proto_buscar',
+        description:
+          'Busca mensagens, enums e campos do protocolo WhatsApp (WAProto.proto) pelo nome. Ex: "extendedTextMessage" encontra o campo e a mensagem correspondente.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            query: {
+              type: 'string',
+              description: 'Nome ou parte do nome (ex: extendedTextMessage, ContextInfo, FontType)',
+            },
+            limite: {
+              type: 'number',
+              description: 'Número máximo de resultados (default: 20)',
+            },
+          },
+          required: ['query'],
+        },
+      },
+      {
+        name: 'whaileys_listar_exports',
+        description:
+          'Lista todos os exports públicos da biblioteca, agrupados por módulo e categoria.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            somente_publico: {
+              type: 'boolean',
+              description:
+                'Mostrar apenas a API pública, alcançável a partir do entry point do pacote (default: false).',
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: 'whaileys_categorias',
+        description:
+          'Lista declarações de uma categoria específica (interfaces, types, enums, functions, classes, variables, namespaces).',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            categoria: {
+              type: 'string',
+              enum: ['interface', 'type', 'enum', 'function', 'class', 'variable', 'namespace', 're-export'],
+              description: 'Categoria de declarações para listar.',
+            },
+            modulo: {
+              type: 'string',
+              description: 'Filtrar por módulo específico (opcional).',
+            },
+            somente_publico: {
+              type: 'boolean',
+              description:
+                'Mostrar apenas a API pública, alcançável a partir do entry point do pacote (default: false).',
+            },
+            incluir_protegidos: {
+              type: 'boolean',
+              description: 'Incluir membros protected de classes, úteis para subclasses (default: false).',
+            },
+          },
+          required: ['categoria'],
+        },
+      },
+      {
+        name: 'whaileys_constantes',
+        description:
+          'Lista todas as constantes e variáveis exportadas da biblioteca (configurações, defaults, etc).',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            modulo: {
+              type: 'string',
+              description: 'Filtrar por módulo específico (ex: Defaults, WABinary).',
+            },
+            somente_publico: {
+              type: 'boolean',
+              description:
+                'Mostrar apenas a API pública, alcançável a partir do entry point do pacote (default: false).',
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: 'whaileys_hierarquia',
+        description:
+          'Mostra a hierarquia de herança de um tipo (extends/implements, pais e filhos).',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            nome: {
+              type: 'string',
+              description: 'Nome do tipo para analisar hierarquia.',
+            },
+          },
           required: ['nome'],
         },
       },
@@ -399,10 +1436,15 @@ mcpServer.server.setRequestHandler(ListToolsRequestSchema, async () => {
       {
         name: 'whaileys_dependencias',
         description:
-          'Analisa as dependências entre módulos: o que cada módulo exporta e re-exporta.',
+          'Analisa as dependências entre módulos: grafo de imports (módulo e arquivo) com os símbolos importados, fan-in/fan-out, ciclos de import e o que cada módulo exporta e re-exporta.',
         inputSchema: {
           type: 'object',
-          properties: {},
+          properties: {
+            incluir_arquivos: {
+              type: 'boolean',
+              description: 'Incluir as arestas de import entre arquivos (default: false).',
+            },
+          },
           required: [],
         },
       },
@@ -412,7 +1454,13 @@ mcpServer.server.setRequestHandler(ListToolsRequestSchema, async () => {
           'Lista todas as enumerações da biblioteca com seus valores.',
         inputSchema: {
           type: 'object',
-          properties: {},
+          properties: {
+            somente_publico: {
+              type: 'boolean',
+              description:
+                'Mostrar apenas a API pública, alcançável a partir do entry point do pacote (default: false).',
+            },
+          },
           required: [],
         },
       },
@@ -431,6 +1479,11 @@ mcpServer.server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: 'boolean',
               description: 'Incluir propriedades e métodos (default: false).',
             },
+            somente_publico: {
+              type: 'boolean',
+              description:
+                'Mostrar apenas a API pública, alcançável a partir do entry point do pacote (default: false).',
+            },
           },
           required: [],
         },
@@ -446,6 +1499,11 @@ mcpServer.server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: 'string',
               description: 'Filtrar por módulo específico (ex: Utils, Socket).',
             },
+            somente_publico: {
+              type: 'boolean',
+              description:
+                'Mostrar apenas a API pública, alcançável a partir do entry point do pacote (default: false).',
+            },
           },
           required: [],
         },
@@ -484,86 +1542,479 @@ mcpServer.server.setRequestHandler(ListToolsRequestSchema, async () => {
   }
 })
 
-mcpServer.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params
+mcpServer.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  const { name, arguments: args } = request.params
+
+  try {
+    switch (name) {
+      case 'whaileys_estrutura': {
+        const subpasta = (args as { subpasta?: string })?.subpasta
+        const targetPath = subpasta ? path.join(WHAILEYS_PATH, subpasta) : WHAILEYS_PATH
+
+        if (!fs.existsSync(targetPath)) {
+          return {
+            content: [{ type: 'text', text: `❌ Pasta não encontrada: ${subpasta || 'src'}` }],
+            isError: true,
+          }
+        }
+
+        const tree = getDirectoryTree(targetPath)
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `# 📁 Estrutura de ${subpasta || 'whaileys/src'}\n\n\`\`\`\n${tree}\`\`\``,
+            },
+          ],
+        }
+      }
+
+      case 'whaileys_ler_arquivo': {
+        const caminho = (args as { caminho: string }).caminho
+        const fullPath = path.join(WHAILEYS_PATH, caminho)
+
+        if (!fs.existsSync(fullPath)) {
+          return {
+            content: [{ type: 'text', text: `❌ Arquivo não encontrado: ${caminho}` }],
+            isError: true,
+          }
+        }
+
+        const content = fs.readFileSync(fullPath, 'utf-8')
+        const ext = path.extname(caminho).slice(1) || 'typescript'
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `# 📄 ${caminho}\n\n\`\`\`${ext}\n${content}\n\`\`\``,
+            },
+          ],
+        }
+      }
+
+      case 'whaileys_extrair_tipos': {
+        const { modulo, apenas_kind, somente_publico } = args as {
+          modulo?: string
+          apenas_kind?: ExtractedKind
+          somente_publico?: boolean
+        }
+
+        const parser = getParser()
+        let types: ExtractedType[]
+
+        if (modulo) {
+          types = parser.getTypesFromModule(modulo)
+        } else {
+          types = parser.extractAllTypes()
+        }
+
+        if (apenas_kind) {
+          types = types.filter((t) => t.kind === apenas_kind)
+        }
+        types = filterNamespaceMembers(filterByVisibility(types, somente_publico), modulo)
+
+        const grouped: Record<string, ExtractedType[]> = {}
+        for (const type of types) {
+          if (!grouped[type.module]) grouped[type.module] = []
+          grouped[type.module].push(type)
+        }
+
+        let result = `# 📚 Tipos Exportados${modulo ? ` (${modulo})` : ''}${apenas_kind ? ` - ${CATEGORY_LABELS[apenas_kind]}` : ''}\n\n`
+        result += `**Total:** ${types.length} declarações\n\n`
+
+        for (const [mod, moduleTypes] of Object.entries(grouped)) {
+          result += `## 📁 ${mod}\n\n`
+          for (const type of moduleTypes) {
+            result += formatExtractedType(type, false)
+          }
+        }
+
+        return {
+          content: [{ type: 'text', text: result }],
+        }
+      }
+
+      case 'whaileys_buscar_tipo': {
+        const { nome, incluir_protegidos, incluir_exemplo } = args as {
+          nome: string
+          incluir_protegidos?: boolean
+          incluir_exemplo?: boolean
+        }
+
+        const parser = getParser()
+        const protoParser = getProtoParser()
+        const found = parser.searchType(nome)
+        const lowerName = nome.toLowerCase()
+        const isExactMatch =
+          found !== undefined &&
+          (found.name.toLowerCase() === lowerName ||
+            (found.exportedAs ?? []).some((alias) => alias.toLowerCase() === lowerName))
+
+        const protoMatches = protoParser.search(nome, 3)
+        const protoDefinition =
+          protoParser.getDefinition(nome) ??
+          (protoMatches.fields[0]?.field.resolvedType
+            ? protoParser.getDefinition(protoMatches.fields[0].field.resolvedType)
+            : undefined)
+
+        if (protoDefinition && !isExactMatch) {
+          let result = ''
+          for (const { message, field } of protoMatches.fields) {
+            result += `> Campo \`${message.fullName}.${field.name}\` (tag ${field.tag}) do tipo \`${field.resolvedType ?? field.type}\`${field.deprecated ? ' ⚠️ **deprecated**' : ''}\n`
+          }
+          if (protoMatches.fields.length > 0) result += '\n'
+          result += formatProtoDefinition(
+            protoDefinition,
+            protoParser.getReferencingFields(protoDefinition.fullName),
+          )
+          return {
+            content: [{ type: 'text', text: result }],
+          }
+        }
+
+        if (!found) {
+          const fuzzyResults = parser.fuzzySearch(nome, 5)
+          let suggestion = ''
+          if (fuzzyResults.length > 0) {
+            suggestion = '\n\n**Você quis dizer:**\n' + fuzzyResults.map((t) => `- \`${t.name}\` (${t.kind})`).join('\n')
+          }
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `❌ Tipo "${nome}" não encontrado.${suggestion}`,
+              },
+            ],
+            isError: true,
+          }
+        }
+
+        let result = formatExtractedType(found, true, incluir_protegidos)
+        if (incluir_exemplo) {
+          const [example] = parser.getUsageExamples(found.name, 1)
+          result += example
+            ? `\n## 💡 Exemplo de uso\n\n${formatUsageExample(example)}`
+            : '\n_Nenhum exemplo de uso encontrado em Example/ ou nos testes._\n'
+        }
+
+        return {
+          content: [{ type: 'text', text: result }],
+        }
+      }
+
+      case 'whaileys_expandir_tipo': {
+        const { nome, profundidade, max_propriedades } = args as {
+          nome: string
+          profundidade?: number
+          max_propriedades?: number
+        }
+
+        const parser = getParser()
+        const expanded = parser.expandType(nome, profundidade ?? 3, max_propriedades ?? 25)
+
+        if (!expanded) {
+          return {
+            content: [{ type: 'text', text: `❌ Tipo "${nome}" não encontrado.` }],
+            isError: true,
+          }
+        }
+
+        let result = `# 🌲 Expansão de \`${expanded.name}\`\n\n`
+        result += `**Arquivo:** \`${expanded.file}\`\n`
+        result += `**Profundidade:** ${profundidade ?? 3}\n\n`
+        if (expanded.docs) result += `> ${expanded.docs}\n\n`
+
+        for (const child of expanded.children ?? []) {
+          result += formatExpandedType(child)
+        }
+        if (expanded.omittedProperties) {
+          result += `- ... e mais ${expanded.omittedProperties} propriedades\n`
+        }
+        if (!expanded.children || expanded.children.length === 0) {
+          result += '*Este tipo não possui propriedades expansíveis.*\n'
+        }
+
+        return {
+          content: [{ type: 'text', text: result }],
+        }
+      }
+
+      case 'whaileys_socket_api': {
+        const { membro, camada, fabrica } = args as {
+          membro?: string
+          camada?: string
+          fabrica?: string
+        }
+
+        const parser = getParser()
+        const api = parser.getSocketApi(fabrica || 'makeWASocket')
+
+        if (!api) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `❌ Fábrica de socket "${fabrica || 'makeWASocket'}" não encontrada.`,
+              },
+            ],
+            isError: true,
+          }
+        }
+
+        let members = api.members
+        if (membro) {
+          members = members.filter((m) => m.name.toLowerCase().includes(membro.toLowerCase()))
+        }
+        if (camada) {
+          members = members.filter((m) => m.factory.toLowerCase() === camada.toLowerCase())
+        }
+
+        if (members.length === 0) {
+          return {
+            content: [{ type: 'text', text: '❌ Nenhum membro do socket corresponde aos filtros.' }],
+            isError: true,
+          }
+        }
+
+        return {
+          content: [{ type: 'text', text: formatSocketApi(api, members) }],
+        }
+      }
+
+      case 'whaileys_eventos': {
+        const { evento, profundidade, incluir_outras } = args as {
+          evento?: string
+          profundidade?: number
+          incluir_outras?: boolean
+        }
+
+        const parser = getParser()
+        const catalog = parser.getEventCatalog(profundidade ?? (evento ? 2 : 1))
+
+        if (!catalog) {
+          return {
+            content: [{ type: 'text', text: '❌ BaileysEventMap não encontrado no repositório whaileys.' }],
+            isError: true,
+          }
+        }
+
+        const events = evento
+          ? catalog.filter((e) => e.name.toLowerCase().includes(evento.toLowerCase()))
+          : catalog
+
+        if (events.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `❌ Nenhum evento corresponde a "${evento}".\n\n**Eventos disponíveis:** ${catalog.map((e) => `\`${e.name}\``).join(', ')}`,
+              },
+            ],
+            isError: true,
+          }
+        }
+
+        let result = '# 📡 Eventos do Whaileys\n\n'
+        result += `**Total:** ${events.length} eventos\n\n`
+        for (const event of events) {
+          result += formatEventInfo(event, incluir_outras ?? false)
+        }
 
-  try {
-    switch (name) {
-      case 'whaileys_estrutura': {
-        const subpasta = (args as { subpasta?: string })?.subpasta
-        const targetPath = subpasta ? path.join(WHAILEYS_PATH, subpasta) : WHAILEYS_PATH
+        return {
+          content: [{ type: 'text', text: result }],
+        }
+      }
 
-        if (!fs.existsSync(targetPath)) {
+      case 'whaileys_deprecados': {
+        const { modulo, incluir_proto } = args as { modulo?: string; incluir_proto?: boolean }
+
+        const parser = getParser()
+        let deprecations = parser.getDeprecations()
+        if (modulo) {
+          deprecations = deprecations.filter((d) => d.module.toLowerCase() === modulo.toLowerCase())
+        }
+        const protoDeprecations = incluir_proto === false ? [] : getProtoParser().getDeprecations()
+
+        const symbols = deprecations.filter((d) => d.kind === 'symbol')
+        const members = deprecations.filter((d) => d.kind !== 'symbol')
+
+        let result = '# ⚠️ Declarações Deprecated\n\n'
+        result += `**Total:** ${deprecations.length + protoDeprecations.length}\n\n`
+
+        if (symbols.length > 0) {
+          result += `## Símbolos (${symbols.length})\n\n`
+          for (const entry of symbols) result += formatDeprecatedSymbol(entry)
+          result += '\n'
+        }
+
+        if (members.length > 0) {
+          result += `## Propriedades e Métodos (${members.length})\n\n`
+          for (const entry of members) result += formatDeprecatedSymbol(entry)
+          result += '\n'
+        }
+
+        if (protoDeprecations.length > 0) {
+          result += `## Protocolo WAProto (${protoDeprecations.length})\n\n`
+          for (const entry of protoDeprecations) result += formatProtoDeprecation(entry)
+          result += '\n'
+        }
+
+        if (deprecations.length === 0 && protoDeprecations.length === 0) {
+          result += '*Nenhuma declaração deprecated encontrada.*\n'
+        }
+
+        return {
+          content: [{ type: 'text', text: result }],
+        }
+      }
+
+      case 'whaileys_referencias': {
+        const { nome, incluir_imports, limite } = args as {
+          nome: string
+          incluir_imports?: boolean
+          limite?: number
+        }
+
+        const parser = getParser()
+        const found = parser.findReferences(nome)
+
+        if (!found) {
           return {
-            content: [{ type: 'text', text: `❌ Pasta não encontrada: ${subpasta || 'src'}` }],
+            content: [{ type: 'text', text: `❌ Símbolo "${nome}" não encontrado.` }],
             isError: true,
           }
         }
 
-        const tree = getDirectoryTree(targetPath)
+        const references = incluir_imports
+          ? found.references
+          : found.references.filter((r) => r.kind === 'usage')
+        const max = limite || 100
+        const fileCount = new Set(references.map((r) => r.file)).size
+
+        let result = `# 🔎 Referências de \`${found.type.name}\`\n\n`
+        result += `**Definido em:** \`${found.type.file}\`${found.type.lineNumber ? ` (linha ${found.type.lineNumber})` : ''}\n`
+        result += `**Total:** ${references.length} referências em ${fileCount} arquivos\n\n`
+
+        if (references.length === 0) {
+          result += '*Nenhuma referência encontrada em src/.*\n'
+        } else {
+          result += formatReferences(references.slice(0, max))
+          if (references.length > max) {
+            result += `... e mais ${references.length - max} referências\n`
+          }
+        }
+
         return {
-          content: [
-            {
-              type: 'text',
-              text: `# 📁 Estrutura de ${subpasta || 'whaileys/src'}\n\n\`\`\`\n${tree}\`\`\``,
-            },
-          ],
+          content: [{ type: 'text', text: result }],
         }
       }
 
-      case 'whaileys_ler_arquivo': {
-        const caminho = (args as { caminho: string }).caminho
-        const fullPath = path.join(WHAILEYS_PATH, caminho)
+      case 'whaileys_buscar_fuzzy': {
+        const { query, limite, somente_publico } = args as {
+          query: string
+          limite?: number
+          somente_publico?: boolean
+        }
 
-        if (!fs.existsSync(fullPath)) {
+        const parser = getParser()
+        const visible = new Set(filterByVisibility(parser.extractAllTypes(), somente_publico))
+        const results = parser
+          .search(query, somente_publico ? Number.MAX_SAFE_INTEGER : limite || 20)
+          .filter((hit) => visible.has(hit.type))
+          .slice(0, limite || 20)
+
+        if (results.length === 0) {
           return {
-            content: [{ type: 'text', text: `❌ Arquivo não encontrado: ${caminho}` }],
+            content: [{ type: 'text', text: `❌ Nenhum resultado encontrado para "${query}"` }],
             isError: true,
           }
         }
 
-        const content = fs.readFileSync(fullPath, 'utf-8')
-        const ext = path.extname(caminho).slice(1) || 'typescript'
+        let result = `# 🔍 Resultados para "${query}"\n\n`
+        result += `**Encontrados:** ${results.length} tipos\n\n`
+
+        for (const hit of results) {
+          const type = hit.type
+          result += `- ${CATEGORY_EMOJI[type.kind]} **\`${type.name}\`** (${type.kind}) - \`${type.file}\`${type.tags?.deprecated !== undefined ? ' ⚠️ deprecated' : ''}\n`
+          result += `  _score ${hit.score.toFixed(2)} · ${hit.matches.map(formatSearchMatch).join(' · ')}_\n`
+          if (type.docs) result += `  > ${type.docs.substring(0, 100)}...\n`
+        }
 
         return {
-          content: [
-            {
-              type: 'text',
-              text: `# 📄 ${caminho}\n\n\`\`\`${ext}\n${content}\n\`\`\``,
-            },
-          ],
+          content: [{ type: 'text', text: result }],
         }
       }
 
-      case 'whaileys_extrair_tipos': {
-        const { modulo, apenas_kind } = args as { modulo?: string; apenas_kind?: ExtractedKind }
+      case 'whaileys_gerar_exemplo': {
+        const { nome } = args as { nome: string }
 
-        const parser = new AstParser(WHAILEYS_PATH)
-        let types: ExtractedType[]
+        const parser = getParser()
+        const skeleton = parser.generateUsageSkeleton(nome)
 
-        if (modulo) {
-          types = parser.getTypesFromModule(modulo)
-        } else {
-          types = parser.extractAllTypes()
+        if (!skeleton) {
+          return {
+            content: [
+              { type: 'text', text: `❌ "${nome}" não é uma função exportada nem um método do socket` },
+            ],
+            isError: true,
+          }
         }
 
-        if (apenas_kind) {
-          types = types.filter((t) => t.kind === apenas_kind)
+        let result = `# 🧩 Esqueleto de uso: \`${skeleton.symbol}\`\n\n`
+        result += skeleton.diagnostics.length === 0
+          ? '✅ Compila contra o whaileys. Substitua os valores de exemplo pelos reais.\n\n'
+          : `⚠️ **${skeleton.diagnostics.length} erro(s) ao compilar** — ajuste os valores marcados:\n${skeleton.diagnostics.map((d) => `- ${d}`).join('\n')}\n\n`
+        result += '```typescript\n' + skeleton.code + '\n```\n'
+
+        return {
+          content: [{ type: 'text', text: result }],
         }
+      }
 
-        const grouped: Record<string, ExtractedType[]> = {}
-        for (const type of types) {
-          if (!grouped[type.module]) grouped[type.module] = []
-          grouped[type.module].push(type)
+      case 'whaileys_validar_codigo': {
+        const { codigo } = args as { codigo: string }
+
+        const parser = getParser()
+        const diagnostics = parser.validateSnippet(codigo)
+
+        if (diagnostics.length === 0) {
+          return {
+            content: [{ type: 'text', text: '✅ Código compila sem erros contra o whaileys.' }],
+          }
         }
 
-        let result = `# 📚 Tipos Exportados${modulo ? ` (${modulo})` : ''}${apenas_kind ? ` - ${CATEGORY_LABELS[apenas_kind]}` : ''}\n\n`
-        result += `**Total:** ${types.length} declarações\n\n`
+        let result = `# ❌ ${diagnostics.length} erro(s) de compilação\n\n`
+        result += diagnostics.map(formatValidationDiagnostic).join('')
 
-        for (const [mod, moduleTypes] of Object.entries(grouped)) {
-          result += `## 📁 ${mod}\n\n`
-          for (const type of moduleTypes) {
-            result += formatExtractedType(type, false)
+        return {
+          content: [{ type: 'text', text: result }],
+        }
+      }
+
+      case 'whaileys_avaliar_tipo': {
+        const { expressao, profundidade, max_propriedades } = args as {
+          expressao: string
+          profundidade?: number
+          max_propriedades?: number
+        }
+
+        const parser = getParser()
+        const evaluated = parser.evaluateTypeExpression(expressao, profundidade ?? 2, max_propriedades ?? 25)
+
+        let result = `# 🧮 Avaliação de tipo\n\n`
+        result += `**Expressão:** \`${evaluated.expression}\`\n\n`
+        result += '```typescript\n' + evaluated.text + '\n```\n\n'
+
+        const { expanded } = evaluated
+        if (expanded.reference) result += `**Referência:** \`${expanded.reference}\`${expanded.file ? ` _(${expanded.file})_` : ''}\n\n`
+        if (expanded.children && expanded.children.length > 0) {
+          result += '## Membros\n\n'
+          for (const child of expanded.children) {
+            result += formatExpandedType(child)
+          }
+          if (expanded.omittedProperties) {
+            result += `- ... e mais ${expanded.omittedProperties} propriedades\n`
           }
         }
 
@@ -572,53 +2023,282 @@ mcpServer.server.setRequestHandler(CallToolRequestSchema, async (request) => {
         }
       }
 
-      case 'whaileys_buscar_tipo': {
-        const nome = (args as { nome: string }).nome
+      case 'whaileys_variantes': {
+        const { nome, limite } = args as { nome: string; limite?: number }
 
-        const parser = new AstParser(WHAILEYS_PATH)
-        const found = parser.searchType(nome)
+        const parser = getParser()
+        const analysis = parser.getUnionVariants(nome)
 
-        if (!found) {
-          const fuzzyResults = parser.fuzzySearch(nome, 5)
-          let suggestion = ''
-          if (fuzzyResults.length > 0) {
-            suggestion = '\n\n**Você quis dizer:**\n' + fuzzyResults.map((t) => `- \`${t.name}\` (${t.kind})`).join('\n')
+        if (!analysis) {
+          return {
+            content: [{ type: 'text', text: `❌ Tipo "${nome}" não encontrado` }],
+            isError: true,
           }
+        }
+
+        return {
+          content: [{ type: 'text', text: formatUnionAnalysis(analysis, limite || 40) }],
+        }
+      }
+
+      case 'whaileys_buscar_assinatura': {
+        const { parametros, retorno, propriedade, tipo_propriedade, limite, somente_publico } = args as {
+          parametros?: string[]
+          retorno?: string
+          propriedade?: string
+          tipo_propriedade?: string
+          limite?: number
+          somente_publico?: boolean
+        }
+
+        if (!parametros?.length && !retorno && !propriedade && !tipo_propriedade) {
           return {
             content: [
               {
                 type: 'text',
-                text: `❌ Tipo "${nome}" não encontrado.${suggestion}`,
+                text: '❌ Informe ao menos um critério: parametros, retorno, propriedade ou tipo_propriedade',
               },
             ],
             isError: true,
           }
         }
 
+        const parser = getParser()
+        const visible = new Set(filterByVisibility(parser.extractAllTypes(), somente_publico))
+        const matches = parser
+          .searchBySignature(
+            { parameters: parametros, returnType: retorno, propertyName: propriedade, propertyType: tipo_propriedade },
+            Number.MAX_SAFE_INTEGER,
+          )
+          .filter((match) => visible.has(match.type))
+          .slice(0, limite || 20)
+
+        const criteria: string[] = []
+        if (parametros?.length) criteria.push(`aceita ${parametros.map((p) => `\`${p}\``).join(', ')}`)
+        if (retorno) criteria.push(`retorna \`${retorno}\``)
+        if (propriedade || tipo_propriedade) {
+          criteria.push(`propriedade \`${propriedade ?? '*'}${tipo_propriedade ? `: ${tipo_propriedade}` : ''}\``)
+        }
+
+        if (matches.length === 0) {
+          return {
+            content: [{ type: 'text', text: `❌ Nenhuma declaração encontrada que ${criteria.join(' e ')}` }],
+            isError: true,
+          }
+        }
+
+        let result = `# 🔎 Busca por assinatura\n\n`
+        result += `**Critérios:** ${criteria.join(' · ')}\n`
+        result += `**Encontrados:** ${matches.length}\n\n`
+        for (const match of matches) {
+          result += formatSignatureMatch(match)
+        }
+
         return {
-          content: [{ type: 'text', text: formatExtractedType(found, true) }],
+          content: [{ type: 'text', text: result }],
         }
       }
 
-      case 'whaileys_buscar_fuzzy': {
+      case 'whaileys_exemplos': {
+        const { nome, limite } = args as { nome: string; limite?: number }
+
+        const parser = getParser()
+        const examples = parser.getUsageExamples(nome, limite || 5)
+
+        if (examples.length === 0) {
+          return {
+            content: [
+              { type: 'text', text: `❌ Nenhum exemplo de uso de "${nome}" encontrado em Example/ ou nos testes` },
+            ],
+            isError: true,
+          }
+        }
+
+        let result = `# 💡 Exemplos de uso: \`${examples[0].symbol}\`\n\n`
+        result += `**Exemplos:** ${examples.length}\n\n`
+        result += examples.map(formatUsageExample).join('\n')
+
+        return {
+          content: [{ type: 'text', text: result }],
+        }
+      }
+
+      case 'whaileys_diff_api': {
+        const { de, para, somente_breaking, modulo, incluir_internos, limite } = args as {
+          de: string
+          para?: string
+          somente_breaking?: boolean
+          modulo?: string
+          incluir_internos?: boolean
+          limite?: number
+        }
+
+        const selectTypes = (types: ExtractedType[]) =>
+          filterNamespaceMembers(filterByVisibility(types, !incluir_internos), modulo).filter(
+            (t) => !modulo || t.module.toLowerCase() === modulo.toLowerCase(),
+          )
+
+        const from = getTypesAtRef(de)
+        const to = getTypesAtRef(para || 'HEAD')
+        const changes = diffApi(selectTypes(from.types), selectTypes(to.types)).filter(
+          (c) => !somente_breaking || c.breaking,
+        )
+        const breaking = changes.filter((c) => c.breaking)
+        const nonBreaking = changes.filter((c) => !c.breaking)
+
+        let result = `# 🔀 Diff de API: \`${de}\` (${from.sha.substring(0, 7)}) → \`${para || 'HEAD'}\` (${to.sha.substring(0, 7)})\n\n`
+        if (changes.length === 0) {
+          result += '✅ Nenhuma mudança na API.\n'
+          return {
+            content: [{ type: 'text', text: result }],
+          }
+        }
+        result += `**Mudanças:** ${changes.length} (${breaking.length} breaking, ${nonBreaking.length} não-breaking)\n\n`
+
+        const max = limite || 200
+        const sections: Array<[string, ApiChange[]]> = [
+          ['## 💥 Breaking', breaking],
+          ['## ✅ Não-breaking', nonBreaking],
+        ]
+        let shown = 0
+        for (const [title, sectionChanges] of sections) {
+          if (sectionChanges.length === 0 || shown >= max) continue
+          result += `${title} (${sectionChanges.length})\n\n`
+          for (const change of sectionChanges.slice(0, max - shown)) {
+            result += formatApiChange(change)
+          }
+          shown += Math.min(sectionChanges.length, max - shown)
+          result += '\n'
+        }
+        if (changes.length > shown) {
+          result += `_... e mais ${changes.length - shown} mudanças (use \`limite\`, \`modulo\` ou \`somente_breaking\`)_\n`
+        }
+
+        return {
+          content: [{ type: 'text', text: result }],
+        }
+      }
+
+      case 'whaileys_historico': {
+        const { nome, limite, aprofundar } = args as { nome: string; limite?: number; aprofundar?: boolean }
+
+        const parser = getParser()
+        const range = parser.getDeclarationRange(nome)
+        if (!range) {
+          return {
+            content: [{ type: 'text', text: `❌ Declaração de "${nome}" não encontrada` }],
+            isError: true,
+          }
+        }
+
+        if (aprofundar && isShallowRepository()) {
+          const unshallow = unshallowRepository()
+          if (!unshallow.success) {
+            return {
+              content: [{ type: 'text', text: `❌ Falha ao baixar o histórico completo: ${unshallow.output}` }],
+              isError: true,
+            }
+          }
+        }
+
+        const maxCommits = Math.max(1, Math.floor(Number(limite)) || 10)
+        const history = getLineHistory(range.file, range.startLine, range.endLine, maxCommits)
+        if (!history) {
+          return {
+            content: [{ type: 'text', text: `❌ Falha ao consultar o histórico de ${range.file} no git` }],
+            isError: true,
+          }
+        }
+
+        let result = `# 📜 Histórico: \`${range.name}\`\n\n`
+        result += `**Declaração:** ${range.kind} em ${range.file}:${range.startLine}-${range.endLine}\n`
+        result += `**Commits:** ${history.length}\n\n`
+        const shallow = isShallowRepository()
+        if (shallow) {
+          result += '⚠️ O clone local é raso: o histórico para no commit mais antigo baixado. Use `aprofundar: true` para buscar o histórico completo.\n\n'
+        }
+        result += history
+          .map((entry, index) => formatLineHistoryEntry(entry, shallow && index === history.length - 1))
+          .join('\n')
+
+        return {
+          content: [{ type: 'text', text: result }],
+        }
+      }
+
+      case 'whaileys_proto': {
+        const { nome } = args as { nome: string }
+
+        const protoParser = getProtoParser()
+        if (!protoParser.isAvailable()) {
+          return {
+            content: [{ type: 'text', text: '❌ WAProto/WAProto.proto não encontrado no repositório whaileys.' }],
+            isError: true,
+          }
+        }
+
+        const parseError = protoParser.getParseError()
+        if (parseError) {
+          return {
+            content: [{ type: 'text', text: `❌ ${parseError}` }],
+            isError: true,
+          }
+        }
+
+        const definition = protoParser.getDefinition(nome)
+        if (!definition) {
+          const { definitions } = protoParser.search(nome, 5)
+          let suggestion = ''
+          if (definitions.length > 0) {
+            suggestion = '\n\n**Você quis dizer:**\n' + definitions.map((d) => `- \`${d.fullName}\` (${d.kind})`).join('\n')
+          }
+          return {
+            content: [{ type: 'text', text: `❌ Definição proto "${nome}" não encontrada.${suggestion}` }],
+            isError: true,
+          }
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatProtoDefinition(definition, protoParser.getReferencingFields(definition.fullName)),
+            },
+          ],
+        }
+      }
+
+      case 'whaileys_proto_buscar': {
         const { query, limite } = args as { query: string; limite?: number }
 
-        const parser = new AstParser(WHAILEYS_PATH)
-        const results = parser.fuzzySearch(query, limite || 20)
+        const protoParser = getProtoParser()
+        const { definitions, fields } = protoParser.search(query, limite || 20)
 
-        if (results.length === 0) {
+        if (definitions.length === 0 && fields.length === 0) {
+          const parseError = protoParser.getParseError()
           return {
-            content: [{ type: 'text', text: `❌ Nenhum resultado encontrado para "${query}"` }],
+            content: [{ type: 'text', text: parseError ? `❌ ${parseError}` : `❌ Nenhuma definição proto encontrada para "${query}"` }],
             isError: true,
           }
         }
 
-        let result = `# 🔍 Resultados para "${query}"\n\n`
-        result += `**Encontrados:** ${results.length} tipos\n\n`
+        let result = `# 🧬 Proto: resultados para "${query}"\n\n`
 
-        for (const type of results) {
-          result += `- ${CATEGORY_EMOJI[type.kind]} **\`${type.name}\`** (${type.kind}) - \`${type.file}\`\n`
-          if (type.docs) result += `  > ${type.docs.substring(0, 100)}...\n`
+        if (definitions.length > 0) {
+          result += `## Mensagens e Enums (${definitions.length})\n\n`
+          for (const d of definitions) {
+            const count = d.kind === 'message' ? `${d.fields?.length ?? 0} campos` : `${d.values?.length ?? 0} valores`
+            result += `- **\`${d.fullName}\`** (${d.kind}, ${count}) → \`${d.tsName}\`${d.deprecated ? ' ⚠️ deprecated' : ''}\n`
+          }
+          result += '\n'
+        }
+
+        if (fields.length > 0) {
+          result += `## Campos (${fields.length})\n\n`
+          for (const { message, field } of fields) {
+            result += `- \`${message.fullName}.${field.name}\` = ${field.tag}: \`${field.label} ${field.resolvedType ?? field.type}\`${field.deprecated ? ' ⚠️ deprecated' : ''}\n`
+          }
+          result += '\n'
         }
 
         return {
@@ -627,8 +2307,10 @@ mcpServer.server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case 'whaileys_listar_exports': {
-        const parser = new AstParser(WHAILEYS_PATH)
-        const types = parser.extractAllTypes()
+        const { somente_publico } = (args ?? {}) as { somente_publico?: boolean }
+
+        const parser = getParser()
+        const types = filterNamespaceMembers(filterByVisibility(parser.extractAllTypes(), somente_publico))
 
         const byModule: Record<string, Record<ExtractedKind, string[]>> = {}
 
@@ -667,10 +2349,18 @@ mcpServer.server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case 'whaileys_categorias': {
-        const { categoria, modulo } = args as { categoria: ExtractedKind; modulo?: string }
+        const { categoria, modulo, somente_publico, incluir_protegidos } = args as {
+          categoria: ExtractedKind
+          modulo?: string
+          somente_publico?: boolean
+          incluir_protegidos?: boolean
+        }
 
-        const parser = new AstParser(WHAILEYS_PATH)
-        let types = parser.getTypesByKind(categoria)
+        const parser = getParser()
+        let types = filterNamespaceMembers(
+          filterByVisibility(parser.getTypesByKind(categoria), somente_publico),
+          modulo,
+        )
 
         if (modulo) {
           types = types.filter((t) => t.module.toLowerCase() === modulo.toLowerCase())
@@ -680,7 +2370,14 @@ mcpServer.server.setRequestHandler(CallToolRequestSchema, async (request) => {
         result += `**Total:** ${types.length}\n\n`
 
         for (const type of types) {
-          result += formatExtractedType(type, categoria === 'enum' || categoria === 'interface')
+          result += formatExtractedType(
+            type,
+            categoria === 'enum' ||
+              categoria === 'interface' ||
+              categoria === 'class' ||
+              categoria === 're-export',
+            incluir_protegidos,
+          )
         }
 
         return {
@@ -689,10 +2386,10 @@ mcpServer.server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case 'whaileys_constantes': {
-        const { modulo } = args as { modulo?: string }
+        const { modulo, somente_publico } = args as { modulo?: string; somente_publico?: boolean }
 
-        const parser = new AstParser(WHAILEYS_PATH)
-        let constants = parser.getConstants()
+        const parser = getParser()
+        let constants = filterNamespaceMembers(filterByVisibility(parser.getConstants(), somente_publico), modulo)
 
         if (modulo) {
           constants = constants.filter((c) => c.module.toLowerCase() === modulo.toLowerCase())
@@ -727,7 +2424,7 @@ mcpServer.server.setRequestHandler(CallToolRequestSchema, async (request) => {
       case 'whaileys_hierarquia': {
         const { nome } = args as { nome: string }
 
-        const parser = new AstParser(WHAILEYS_PATH)
+        const parser = getParser()
         const hierarchy = parser.getTypeHierarchy(nome)
 
         if (!hierarchy) {
@@ -766,7 +2463,7 @@ mcpServer.server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case 'whaileys_estatisticas': {
-        const parser = new AstParser(WHAILEYS_PATH)
+        const parser = getParser()
         const stats = parser.getStatistics()
 
         return {
@@ -775,17 +2472,21 @@ mcpServer.server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case 'whaileys_dependencias': {
-        const parser = new AstParser(WHAILEYS_PATH)
-        const deps = parser.analyzeDependencies()
+        const { incluir_arquivos } = (args ?? {}) as { incluir_arquivos?: boolean }
+
+        const parser = getParser()
+        const analysis = parser.analyzeDependencies()
 
         return {
-          content: [{ type: 'text', text: formatDependencies(deps) }],
+          content: [{ type: 'text', text: formatDependencies(analysis, incluir_arquivos) }],
         }
       }
 
       case 'whaileys_enums': {
-        const parser = new AstParser(WHAILEYS_PATH)
-        const enums = parser.getEnums()
+        const { somente_publico } = (args ?? {}) as { somente_publico?: boolean }
+
+        const parser = getParser()
+        const enums = filterNamespaceMembers(filterByVisibility(parser.getEnums(), somente_publico))
 
         let result = '# 🔢 Enumerações da Biblioteca\n\n'
         result += `**Total:** ${enums.length}\n\n`
@@ -810,10 +2511,14 @@ mcpServer.server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case 'whaileys_interfaces': {
-        const { modulo, detalhado } = args as { modulo?: string; detalhado?: boolean }
+        const { modulo, detalhado, somente_publico } = args as {
+          modulo?: string
+          detalhado?: boolean
+          somente_publico?: boolean
+        }
 
-        const parser = new AstParser(WHAILEYS_PATH)
-        let interfaces = parser.getInterfaces()
+        const parser = getParser()
+        let interfaces = filterNamespaceMembers(filterByVisibility(parser.getInterfaces(), somente_publico), modulo)
 
         if (modulo) {
           interfaces = interfaces.filter((i) => i.module.toLowerCase() === modulo.toLowerCase())
@@ -832,10 +2537,10 @@ mcpServer.server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case 'whaileys_funcoes': {
-        const { modulo } = args as { modulo?: string }
+        const { modulo, somente_publico } = args as { modulo?: string; somente_publico?: boolean }
 
-        const parser = new AstParser(WHAILEYS_PATH)
-        let functions = parser.getFunctions()
+        const parser = getParser()
+        let functions = filterNamespaceMembers(filterByVisibility(parser.getFunctions(), somente_publico), modulo)
 
         if (modulo) {
           functions = functions.filter((f) => f.module.toLowerCase() === modulo.toLowerCase())
@@ -892,6 +2597,7 @@ mcpServer.server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
       case 'whaileys_update': {
         const updateResult = await checkAndUpdate()
+        handleRepositoryUpdate(updateResult)
 
         let result = '# 🔄 Atualização do Repositório\n\n'
 
@@ -1020,7 +2726,7 @@ mcpServer.server.setRequestHandler(ReadResourceRequestSchema, async (request) =>
   }
 
   if (uri === 'whaileys://statistics') {
-    const parser = new AstParser(WHAILEYS_PATH)
+    const parser = getParser()
     const stats = parser.getStatistics()
     return {
       contents: [
@@ -1038,6 +2744,7 @@ mcpServer.server.setRequestHandler(ReadResourceRequestSchema, async (request) =>
 
 const AUTO_UPDATE_INTERVAL = parseInt(process.env.AUTO_UPDATE_INTERVAL || '3600000', 10)
 const AUTO_UPDATE_ENABLED = process.env.AUTO_UPDATE_ENABLED !== 'false'
+const FILE_WATCH_ENABLED = process.env.FILE_WATCH_ENABLED !== 'false'
 
 async function main() {
   const repoResult = await ensureRepository()
@@ -1049,9 +2756,21 @@ async function main() {
   WHAILEYS_PATH = repoResult.path
   console.error(`📁 Usando whaileys: ${WHAILEYS_PATH}`)
   
+  // A extração do índice é síncrona: só começa depois do handshake para não atrasar o initialize
+  mcpServer.server.oninitialized = () => {
+    setImmediate(() => {
+      const types = getParser().extractAllTypes()
+      console.error(`📚 Índice carregado: ${types.length} declarações`)
+    })
+  }
+
   const transport = new StdioServerTransport()
   await mcpServer.connect(transport)
-  console.error('MCP Whaileys server v1.0.0 running on stdio')
+  console.error(`MCP Whaileys server v${SERVER_VERSION} running on stdio`)
+
+  if (FILE_WATCH_ENABLED) {
+    watchSourceFiles(WHAILEYS_PATH, reindexFiles)
+  }
 
   if (AUTO_UPDATE_ENABLED) {
     const initialCheck = await checkForUpdates()
@@ -1059,7 +2778,7 @@ async function main() {
       console.error(`⚠️ Atualização disponível: ${initialCheck.latestCommit?.message}`)
     }
 
-    scheduleUpdateCheck(AUTO_UPDATE_INTERVAL)
+    scheduleUpdateCheck(AUTO_UPDATE_INTERVAL, handleRepositoryUpdate)
   }
 }
 
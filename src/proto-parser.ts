@@ -0,0 +1,511 @@
+import * as fs from 'fs'
+import * as path from 'path'
+
+export type ProtoKind = 'message' | 'enum'
+
+export type ProtoFieldLabel = 'optional' | 'required' | 'repeated'
+
+export interface ProtoField {
+  name: string
+  type: string
+  resolvedType?: string
+  tag: number
+  label: ProtoFieldLabel
+  repeated: boolean
+  optional: boolean
+  mapKeyType?: string
+  oneof?: string
+  deprecated: boolean
+  lineNumber: number
+}
+
+export interface ProtoEnumValue {
+  name: string
+  value: number
+  deprecated: boolean
+}
+
+export interface ProtoDefinition {
+  name: string
+  fullName: string
+  kind: ProtoKind
+  tsName: string
+  file: string
+  fields?: ProtoField[]
+  values?: ProtoEnumValue[]
+  nested: string[]
+  deprecated: boolean
+  lineNumber: number
+}
+
+export interface ProtoFieldMatch {
+  message: ProtoDefinition
+  field: ProtoField
+}
+
+export interface ProtoSearchResult {
+  definitions: ProtoDefinition[]
+  fields: ProtoFieldMatch[]
+}
+
+export interface ProtoDeprecation {
+  definition: ProtoDefinition
+  kind: 'message' | 'enum' | 'field' | 'enum-value'
+  member?: string
+}
+
+interface Token {
+  value: string
+  line: number
+}
+
+const PROTO_FILE = path.join('WAProto', 'WAProto.proto')
+
+/**
+ * Indexa as mensagens, campos e enums do `WAProto.proto` do whaileys. As declarações
+ * `proto.*` de `WAProto/index.d.ts` já são indexadas pelo AstParser; este parser acrescenta
+ * o que só existe no `.proto`: tags dos campos, labels (`optional`, `repeated`) e oneofs.
+ */
+export class ProtoParser {
+  private protoFilePath: string
+  private relativeFile: string
+  private tokens: Token[] = []
+  private position = 0
+  private packageName = 'proto'
+  private cachedDefinitions: ProtoDefinition[] | null = null
+  private parseError: string | null = null
+
+  constructor(whaileysSrcPath: string) {
+    const rootPath = path.join(whaileysSrcPath, '..')
+    this.protoFilePath = path.join(rootPath, PROTO_FILE)
+    this.relativeFile = PROTO_FILE.replace(/\\/g, '/')
+  }
+
+  isAvailable(): boolean {
+    return fs.existsSync(this.protoFilePath)
+  }
+
+  /**
+   * Definições do `.proto`. Se o arquivo usar uma construção que o parser não entende, o erro
+   * é registrado uma única vez e o parser passa a responder sem definições, para que as
+   * ferramentas que combinam proto e TypeScript continuem funcionando só com o índice TS.
+   */
+  getDefinitions(): ProtoDefinition[] {
+    if (this.cachedDefinitions) return this.cachedDefinitions
+    if (!this.isAvailable()) return []
+
+    try {
+      this.cachedDefinitions = this.parseDefinitions()
+    } catch (error) {
+      this.parseError = error instanceof Error ? error.message : String(error)
+      console.error(`⚠️ ${this.parseError}. Definições proto ignoradas.`)
+      this.cachedDefinitions = []
+    }
+    return this.cachedDefinitions
+  }
+
+  /** Mensagem do erro de análise do `.proto`, se houver */
+  getParseError(): string | null {
+    this.getDefinitions()
+    return this.parseError
+  }
+
+  getDefinition(name: string): ProtoDefinition | undefined {
+    const definitions = this.getDefinitions()
+    const rawName = name.trim().replace(/^proto\./, '').toLowerCase()
+    const normalized = this.normalizeName(name)
+    return (
+      definitions.find((d) => d.fullName.toLowerCase() === rawName) ||
+      definitions.find((d) => d.fullName.toLowerCase() === normalized) ||
+      definitions.find((d) => d.tsName.toLowerCase() === `proto.${normalized}`) ||
+      definitions.find((d) => this.normalizeName(d.tsName) === normalized) ||
+      definitions.find((d) => d.name.toLowerCase() === normalized.split('.').pop())
+    )
+  }
+
+  search(query: string, maxResults = 20): ProtoSearchResult {
+    const definitions = this.getDefinitions()
+    const normalized = this.normalizeName(query)
+    const lastSegment = normalized.split('.').pop() || normalized
+
+    const scored = definitions
+      .map((definition) => {
+        const fullName = definition.fullName.toLowerCase()
+        const name = definition.name.toLowerCase()
+        let score = 0
+        if (fullName === normalized || this.normalizeName(definition.tsName) === normalized) score += 100
+        else if (name === lastSegment) score += 80
+        else if (name.startsWith(lastSegment)) score += 40
+        else if (fullName.includes(normalized)) score += 20
+        return { definition, score }
+      })
+      .filter((s) => s.score > 0)
+      .sort((a, b) => b.score - a.score || a.definition.fullName.length - b.definition.fullName.length)
+      .slice(0, maxResults)
+      .map((s) => s.definition)
+
+    const fields: ProtoFieldMatch[] = []
+    for (const message of definitions) {
+      for (const field of message.fields ?? []) {
+        if (field.name.toLowerCase() === lastSegment) {
+          fields.push({ message, field })
+        }
+      }
+    }
+
+    return { definitions: scored, fields: fields.slice(0, maxResults) }
+  }
+
+  /**
+   * Lista os campos de outras mensagens cujo tipo é a definição informada.
+   */
+  getReferencingFields(fullName: string): ProtoFieldMatch[] {
+    const matches: ProtoFieldMatch[] = []
+    for (const message of this.getDefinitions()) {
+      for (const field of message.fields ?? []) {
+        if (field.resolvedType === fullName) {
+          matches.push({ message, field })
+        }
+      }
+    }
+    return matches
+  }
+
+  /**
+   * Lista mensagens, enums, campos e valores marcados com `[deprecated = true]`.
+   */
+  getDeprecations(): ProtoDeprecation[] {
+    const deprecations: ProtoDeprecation[] = []
+    for (const definition of this.getDefinitions()) {
+      if (definition.deprecated) {
+        deprecations.push({ definition, kind: definition.kind })
+      }
+      for (const field of definition.fields ?? []) {
+        if (field.deprecated) deprecations.push({ definition, kind: 'field', member: field.name })
+      }
+      for (const value of definition.values ?? []) {
+        if (value.deprecated) deprecations.push({ definition, kind: 'enum-value', member: value.name })
+      }
+    }
+    return deprecations
+  }
+
+  private parseDefinitions(): ProtoDefinition[] {
+    this.tokens = this.tokenize(fs.readFileSync(this.protoFilePath, 'utf-8'))
+    this.position = 0
+    const definitions: ProtoDefinition[] = []
+
+    while (!this.isAtEnd()) {
+      const token = this.next()
+      switch (token.value) {
+        case 'package':
+          this.packageName = this.next().value
+          this.expect(';')
+          break
+        case 'message':
+          this.parseMessage('', token.line, definitions)
+          break
+        case 'enum':
+          this.parseEnum('', token.line, definitions)
+          break
+        case 'service':
+        case 'extend':
+          this.next()
+          this.skipBlock()
+          break
+        default:
+          this.skipStatement()
+      }
+    }
+
+    this.resolveFieldTypes(definitions)
+    return definitions
+  }
+
+  private normalizeName(name: string): string {
+    return name
+      .trim()
+      .replace(/^proto\./i, '')
+      .replace(/(^|\.)I(?=[A-Z])/g, '$1')
+      .toLowerCase()
+  }
+
+  private parseMessage(scope: string, line: number, definitions: ProtoDefinition[]): void {
+    const name = this.next().value
+    const fullName = scope ? `${scope}.${name}` : name
+    const definition: ProtoDefinition = {
+      name,
+      fullName,
+      kind: 'message',
+      tsName: this.getTsName(fullName, 'message'),
+      file: this.relativeFile,
+      fields: [],
+      nested: [],
+      deprecated: false,
+      lineNumber: line,
+    }
+    definitions.push(definition)
+    this.expect('{')
+    this.parseMessageBody(definition, undefined, definitions)
+  }
+
+  private parseMessageBody(
+    definition: ProtoDefinition,
+    oneof: string | undefined,
+    definitions: ProtoDefinition[],
+  ): void {
+    while (!this.isAtEnd() && this.peek().value !== '}') {
+      const token = this.next()
+
+      switch (token.value) {
+        case 'message':
+          definition.nested.push(`${definition.fullName}.${this.peek().value}`)
+          this.parseMessage(definition.fullName, token.line, definitions)
+          break
+        case 'enum':
+          definition.nested.push(`${definition.fullName}.${this.peek().value}`)
+          this.parseEnum(definition.fullName, token.line, definitions)
+          break
+        case 'oneof': {
+          const oneofName = this.next().value
+          this.expect('{')
+          this.parseMessageBody(definition, oneofName, definitions)
+          break
+        }
+        case 'option': {
+          const option = this.parseOptionStatement()
+          if (option.key === 'deprecated' && option.value === 'true') definition.deprecated = true
+          break
+        }
+        case 'reserved':
+        case 'extensions':
+          this.skipStatement()
+          break
+        case 'extend':
+          this.next()
+          this.skipBlock()
+          break
+        case ';':
+          break
+        default:
+          definition.fields!.push(this.parseField(token, oneof))
+      }
+    }
+    this.expect('}')
+  }
+
+  private parseField(first: Token, oneof: string | undefined): ProtoField {
+    let label: ProtoFieldLabel = 'optional'
+    let typeToken = first
+
+    if (first.value === 'optional' || first.value === 'required' || first.value === 'repeated') {
+      label = first.value
+      typeToken = this.next()
+    }
+
+    let type = typeToken.value
+    let mapKeyType: string | undefined
+    if (type === 'map') {
+      this.expect('<')
+      mapKeyType = this.next().value
+      this.expect(',')
+      type = this.next().value
+      this.expect('>')
+    }
+
+    const name = this.next().value
+    this.expect('=')
+    const tag = parseInt(this.next().value, 10)
+    const options = this.parseFieldOptions()
+    this.expect(';')
+
+    return {
+      name,
+      type,
+      tag,
+      label,
+      repeated: label === 'repeated' || mapKeyType !== undefined,
+      optional: label === 'optional',
+      mapKeyType,
+      oneof,
+      deprecated: options.deprecated === 'true',
+      lineNumber: typeToken.line,
+    }
+  }
+
+  private parseEnum(scope: string, line: number, definitions: ProtoDefinition[]): void {
+    const name = this.next().value
+    const fullName = scope ? `${scope}.${name}` : name
+    const definition: ProtoDefinition = {
+      name,
+      fullName,
+      kind: 'enum',
+      tsName: this.getTsName(fullName, 'enum'),
+      file: this.relativeFile,
+      values: [],
+      nested: [],
+      deprecated: false,
+      lineNumber: line,
+    }
+    definitions.push(definition)
+    this.expect('{')
+
+    while (!this.isAtEnd() && this.peek().value !== '}') {
+      const token = this.next()
+      if (token.value === 'option') {
+        this.parseOptionStatement()
+        continue
+      }
+      if (token.value === 'reserved') {
+        this.skipStatement()
+        continue
+      }
+      if (token.value === ';') continue
+
+      this.expect('=')
+      const value = parseInt(this.next().value, 10)
+      const options = this.parseFieldOptions()
+      this.expect(';')
+      definition.values!.push({ name: token.value, value, deprecated: options.deprecated === 'true' })
+    }
+    this.expect('}')
+  }
+
+  private parseFieldOptions(): Record<string, string> {
+    const options: Record<string, string> = {}
+    if (this.peek().value !== '[') return options
+
+    this.next()
+    while (!this.isAtEnd() && this.peek().value !== ']') {
+      const key = this.next().value
+      if (key === ',') continue
+      this.expect('=')
+      options[key.replace(/[()]/g, '')] = this.next().value
+    }
+    this.expect(']')
+    return options
+  }
+
+  private parseOptionStatement(): { key: string; value: string } {
+    const key = this.next().value
+    this.expect('=')
+    const value = this.next().value
+    this.skipStatement()
+    return { key: key.replace(/[()]/g, ''), value }
+  }
+
+  /**
+   * Resolve o tipo de cada campo para o nome completo da definição, seguindo as regras de
+   * escopo do protobuf (do escopo mais interno para o pacote).
+   */
+  private resolveFieldTypes(definitions: ProtoDefinition[]): void {
+    const byFullName = new Set(definitions.map((d) => d.fullName))
+
+    for (const message of definitions) {
+      for (const field of message.fields ?? []) {
+        const typeName = field.type.replace(new RegExp(`^\\.?${this.packageName}\\.`), '').replace(/^\./, '')
+        const scopes = message.fullName.split('.')
+
+        for (let i = scopes.length; i >= 0; i--) {
+          const candidate = [...scopes.slice(0, i), typeName].join('.')
+          if (byFullName.has(candidate)) {
+            field.resolvedType = candidate
+            break
+          }
+        }
+      }
+    }
+  }
+
+  private getTsName(fullName: string, kind: ProtoKind): string {
+    if (kind === 'enum') return `${this.packageName}.${fullName}`
+    const parts = fullName.split('.')
+    parts[parts.length - 1] = `I${parts[parts.length - 1]}`
+    return `${this.packageName}.${parts.join('.')}`
+  }
+
+  private tokenize(source: string): Token[] {
+    const tokens: Token[] = []
+    let line = 1
+    let i = 0
+
+    while (i < source.length) {
+      const char = source[i]
+
+      if (char === '\n') {
+        line++
+        i++
+      } else if (/\s/.test(char)) {
+        i++
+      } else if (char === '/' && source[i + 1] === '/') {
+        while (i < source.length && source[i] !== '\n') i++
+      } else if (char === '/' && source[i + 1] === '*') {
+        i += 2
+        while (i < source.length && !(source[i] === '*' && source[i + 1] === '/')) {
+          if (source[i] === '\n') line++
+          i++
+        }
+        i += 2
+      } else if (char === '"' || char === "'") {
+        let j = i + 1
+        while (j < source.length && source[j] !== char) {
+          if (source[j] === '\\') j++
+          j++
+        }
+        tokens.push({ value: source.slice(i, j + 1), line })
+        i = j + 1
+      } else if (/[A-Za-z0-9_.\-+]/.test(char)) {
+        let j = i
+        while (j < source.length && /[A-Za-z0-9_.\-+]/.test(source[j])) j++
+        tokens.push({ value: source.slice(i, j), line })
+        i = j
+      } else if (char === '(') {
+        let j = i
+        while (j < source.length && source[j] !== ')') j++
+        tokens.push({ value: source.slice(i, j + 1), line })
+        i = j + 1
+      } else {
+        tokens.push({ value: char, line })
+        i++
+      }
+    }
+
+    return tokens
+  }
+
+  private isAtEnd(): boolean {
+    return this.position >= this.tokens.length
+  }
+
+  private peek(): Token {
+    return this.tokens[this.position] ?? { value: '', line: 0 }
+  }
+
+  private next(): Token {
+    return this.tokens[this.position++] ?? { value: '', line: 0 }
+  }
+
+  private expect(value: string): void {
+    const token = this.next()
+    if (token.value !== value) {
+      throw new Error(
+        `Erro ao analisar ${this.relativeFile} (linha ${token.line}): esperado "${value}", encontrado "${token.value}"`,
+      )
+    }
+  }
+
+  private skipStatement(): void {
+    while (!this.isAtEnd() && this.peek().value !== ';') this.next()
+    this.next()
+  }
+
+  private skipBlock(): void {
+    while (!this.isAtEnd() && this.peek().value !== '{') this.next()
+    let depth = 0
+    while (!this.isAtEnd()) {
+      const token = this.next()
+      if (token.value === '{') depth++
+      if (token.value === '}' && --depth === 0) return
+    }
+  }
+}
@@ -0,0 +1,246 @@
+import { ExtractedType } from './ast-parser.js'
+
+export type SearchField = 'name' | 'alias' | 'property' | 'parameter' | 'member' | 'file' | 'docs'
+
+export interface SearchMatch {
+  /** Termo da consulta */
+  term: string
+  /** Termo do índice que casou (difere de `term` em matches por prefixo ou typo) */
+  matched: string
+  field: SearchField
+  /** Texto original onde o termo aparece (nome da propriedade, caminho, ...) */
+  value: string
+  fuzzy: boolean
+}
+
+export interface SearchHit {
+  type: ExtractedType
+  score: number
+  matches: SearchMatch[]
+}
+
+interface Posting {
+  field: SearchField
+  value: string
+  count: number
+}
+
+interface ExpandedTerm {
+  term: string
+  weight: number
+  fuzzy: boolean
+}
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 5,
+  alias: 4,
+  member: 2,
+  property: 2,
+  parameter: 1.5,
+  file: 1,
+  docs: 0.5,
+}
+
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+const MIN_TRIGRAM_SIMILARITY = 0.45
+const MAX_TERM_EXPANSIONS = 5
+
+/**
+ * Quebra identificadores em termos: camelCase, PascalCase, snake_case, kebab-case, caminhos
+ * e pontos. O identificador inteiro também entra como termo (`makeWASocket` →
+ * `make`, `wa`, `socket`, `makewasocket`).
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = []
+  for (const word of text.split(/[^A-Za-z0-9_$]+/)) {
+    if (!word) continue
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(/[\s_$]+/)
+      .map((p) => p.toLowerCase())
+      .filter(Boolean)
+    tokens.push(...parts)
+    const whole = word.replace(/[_$]/g, '').toLowerCase()
+    if (parts.length > 1 && whole) tokens.push(whole)
+  }
+  return tokens
+}
+
+function trigrams(term: string): Set<string> {
+  const padded = `  ${term} `
+  const result = new Set<string>()
+  for (let i = 0; i < padded.length - 2; i++) {
+    result.add(padded.substring(i, i + 3))
+  }
+  return result
+}
+
+/**
+ * Índice invertido sobre as declarações extraídas, com ranking BM25 ponderado por campo
+ * e tolerância a erros de digitação via similaridade de trigramas.
+ */
+export class SearchIndex {
+  private types: ExtractedType[]
+  private postings: Map<string, Map<number, Posting[]>> = new Map()
+  private trigramIndex: Map<string, Set<string>> = new Map()
+  private docLengths: number[] = []
+  private averageDocLength = 0
+
+  constructor(types: ExtractedType[]) {
+    this.types = types
+    types.forEach((type, docId) => this.addDocument(type, docId))
+
+    const total = this.docLengths.reduce((sum, length) => sum + length, 0)
+    this.averageDocLength = types.length > 0 ? total / types.length : 0
+
+    for (const term of this.postings.keys()) {
+      for (const trigram of trigrams(term)) {
+        if (!this.trigramIndex.has(trigram)) this.trigramIndex.set(trigram, new Set())
+        this.trigramIndex.get(trigram)!.add(term)
+      }
+    }
+  }
+
+  search(query: string, maxResults = 20): SearchHit[] {
+    const queryTerms = [...new Set(tokenize(query))]
+    if (queryTerms.length === 0) return []
+
+    const hits = new Map<number, SearchHit>()
+    const termScores = new Map<number, Map<string, number>>()
+    const documentCount = this.types.length
+
+    for (const queryTerm of queryTerms) {
+      for (const expanded of this.expandTerm(queryTerm)) {
+        const docs = this.postings.get(expanded.term)
+        if (!docs) continue
+
+        const idf = Math.log(1 + (documentCount - docs.size + 0.5) / (docs.size + 0.5))
+
+        for (const [docId, postings] of docs) {
+          const weightedTf = postings.reduce((sum, p) => sum + p.count * FIELD_WEIGHTS[p.field], 0)
+          const normalization =
+            1 - BM25_B + BM25_B * (this.docLengths[docId] / (this.averageDocLength || 1))
+          const score =
+            expanded.weight * idf * ((weightedTf * (BM25_K1 + 1)) / (weightedTf + BM25_K1 * normalization))
+
+          let hit = hits.get(docId)
+          if (!hit) {
+            hit = { type: this.types[docId], score: 0, matches: [] }
+            hits.set(docId, hit)
+            termScores.set(docId, new Map())
+          }
+          // Cada termo da consulta conta uma vez: vale a melhor expansão para o documento
+          const scores = termScores.get(docId)!
+          scores.set(queryTerm, Math.max(scores.get(queryTerm) ?? 0, score))
+
+          const best = [...postings].sort((a, b) => FIELD_WEIGHTS[b.field] - FIELD_WEIGHTS[a.field])[0]
+          const previous = hit.matches.find((m) => m.term === queryTerm && m.field === best.field)
+          if (!previous) {
+            hit.matches.push({
+              term: queryTerm,
+              matched: expanded.term,
+              field: best.field,
+              value: best.value,
+              fuzzy: expanded.fuzzy,
+            })
+          }
+        }
+      }
+    }
+
+    for (const [docId, hit] of hits) {
+      hit.score = [...termScores.get(docId)!.values()].reduce((sum, score) => sum + score, 0)
+
+      // Nome (sem o prefixo do namespace) igual aos termos casados vale mais que um nome longo
+      const shortName = hit.type.name.split('.').pop()!.toLowerCase().replace(/[^a-z0-9]/g, '')
+      const nameMatches = hit.matches.filter((m) => m.field === 'name' || m.field === 'alias')
+      const candidates = [queryTerms.join(''), nameMatches.map((m) => m.matched).join('')]
+      if (candidates.includes(shortName)) hit.score *= 2
+      else if (candidates.some((c) => c && shortName.startsWith(c))) hit.score *= 1.3
+
+      const coverage = new Set(hit.matches.map((m) => m.term)).size / queryTerms.length
+      hit.score *= coverage * coverage
+
+      hit.matches.sort((a, b) => FIELD_WEIGHTS[b.field] - FIELD_WEIGHTS[a.field])
+    }
+
+    return [...hits.values()]
+      .sort((a, b) => b.score - a.score || a.type.name.length - b.type.name.length)
+      .slice(0, maxResults)
+  }
+
+  private addDocument(type: ExtractedType, docId: number): void {
+    // Re-exports (`* from "./Auth"`) não têm nome próprio: o caminho entra como arquivo
+    const values: Array<[SearchField, string]> = [[type.kind === 're-export' ? 'file' : 'name', type.name]]
+
+    for (const alias of type.exportedAs ?? []) values.push(['alias', alias])
+    for (const prop of [...(type.properties ?? []), ...(type.methods ?? [])]) {
+      values.push(['property', prop.name])
+    }
+    for (const param of type.parameters ?? []) values.push(['parameter', param.name])
+    for (const member of type.members ?? []) {
+      values.push(['member', member.split(/\s*=\s*/)[0].replace(/^(interface|type|enum|function|class|namespace|const)\s+/, '')])
+    }
+    values.push(['file', type.file])
+    if (type.docs) values.push(['docs', type.docs])
+
+    let length = 0
+    for (const [field, value] of values) {
+      for (const term of tokenize(value)) {
+        length += FIELD_WEIGHTS[field]
+        if (!this.postings.has(term)) this.postings.set(term, new Map())
+        const docs = this.postings.get(term)!
+        if (!docs.has(docId)) docs.set(docId, [])
+        const postings = docs.get(docId)!
+        const existing = postings.find((p) => p.field === field)
+        if (existing) existing.count++
+        else postings.push({ field, value, count: 1 })
+      }
+    }
+    this.docLengths[docId] = length
+  }
+
+  /**
+   * Termo exato com peso 1; termos do índice que começam com o termo (peso 0.7) e termos
+   * parecidos por trigramas (peso proporcional à similaridade, só para termos ausentes do índice)
+   * cobrem buscas parciais e typos.
+   */
+  private expandTerm(term: string): ExpandedTerm[] {
+    const expanded: ExpandedTerm[] = []
+    if (this.postings.has(term)) expanded.push({ term, weight: 1, fuzzy: false })
+
+    const queryTrigrams = trigrams(term)
+    const candidates = new Map<string, number>()
+    for (const trigram of queryTrigrams) {
+      for (const candidate of this.trigramIndex.get(trigram) ?? []) {
+        if (candidate !== term) candidates.set(candidate, (candidates.get(candidate) ?? 0) + 1)
+      }
+    }
+
+    const prefixed: ExpandedTerm[] = []
+    const similar: ExpandedTerm[] = []
+    for (const [candidate, shared] of candidates) {
+      if (term.length >= 3 && candidate.startsWith(term)) {
+        prefixed.push({ term: candidate, weight: 0.7, fuzzy: false })
+        continue
+      }
+      // Correção de typo só quando o termo não existe no índice
+      if (expanded.length > 0 || term.length < 4) continue
+      const union = queryTrigrams.size + trigrams(candidate).size - shared
+      const similarity = shared / union
+      if (similarity >= MIN_TRIGRAM_SIMILARITY) {
+        similar.push({ term: candidate, weight: similarity * 0.8, fuzzy: true })
+      }
+    }
+
+    // Fica só com as correções mais próximas, como um "você quis dizer"
+    const bestWeight = Math.max(0, ...similar.map((s) => s.weight))
+    const corrections = similar.filter((s) => s.weight >= bestWeight - 0.08)
+
+    prefixed.sort((a, b) => a.term.length - b.term.length)
+    corrections.sort((a, b) => b.weight - a.weight)
+    return [...expanded, ...corrections, ...prefixed].slice(0, MAX_TERM_EXPANSIONS)
+  }
+}
@@ -0,0 +1,139 @@
+import { afterAll, describe, expect, it } from 'vitest'
+import { diffApi } from '../src/api-diff.js'
+import { AstParser, ParameterInfo, PropertyInfo } from '../src/ast-parser.js'
+import { createFixtureRepo, declaration, param, prop } from './helpers.js'
+
+const fn = (parameters: ParameterInfo[], returnType = 'string') =>
+  declaration({ name: 'jidEncode', kind: 'function', parameters, returnType })
+
+const iface = (properties: PropertyInfo[]) => declaration({ name: 'SocketConfig', kind: 'interface', properties })
+
+const cleanups: Array<() => void> = []
+afterAll(() => cleanups.forEach((cleanup) => cleanup()))
+
+describe('diffApi', () => {
+  it('classifica export removido como breaking e adicionado como não-breaking', () => {
+    const before = [declaration({ name: 'Old', kind: 'type' })]
+    const after = [declaration({ name: 'New', kind: 'type' })]
+
+    const changes = diffApi(before, after)
+
+    expect(changes.map((c) => [c.name, c.kind, c.breaking])).toEqual([
+      ['Old', 'removed', true],
+      ['New', 'added', false],
+    ])
+  })
+
+  it('ignora re-exports e considera mudança de kind breaking', () => {
+    const before = [
+      declaration({ name: 'Auth', kind: 're-export' }),
+      declaration({ name: 'Mode', kind: 'type' }),
+    ]
+    const after = [declaration({ name: 'Mode', kind: 'enum', members: ['A = 0'] })]
+
+    const changes = diffApi(before, after)
+
+    expect(changes).toHaveLength(1)
+    expect(changes[0]).toMatchObject({ name: 'Mode', kind: 'kind-changed', breaking: true })
+  })
+
+  it('parâmetro opcional adicionado não quebra; obrigatório adicionado quebra', () => {
+    const base = [param('user', 'string'), param('server', 'JidServer')]
+
+    expect(diffApi([fn(base)], [fn([...base, param('device', 'number', true)])])).toMatchObject([
+      { kind: 'parameter-added', member: 'device', breaking: false },
+    ])
+    expect(diffApi([fn(base)], [fn([...base, param('device', 'number')])])).toMatchObject([
+      { kind: 'parameter-added', member: 'device', breaking: true },
+    ])
+  })
+
+  it('parâmetro que passa a ser obrigatório quebra; o inverso não', () => {
+    const optional = fn([param('device', 'number', true)])
+    const required = fn([param('device', 'number')])
+
+    expect(diffApi([optional], [required])).toMatchObject([
+      { kind: 'parameter-changed', breaking: true, reason: 'parâmetro passou a ser obrigatório' },
+    ])
+    expect(diffApi([required], [optional])).toMatchObject([{ kind: 'parameter-changed', breaking: false }])
+  })
+
+  it('mudança de tipo de parâmetro ou retorno quebra, ignorando diferenças de espaço', () => {
+    expect(diffApi([fn([param('jid', 'string')])], [fn([param('jid', 'number')])])).toMatchObject([
+      { kind: 'parameter-changed', breaking: true },
+    ])
+    expect(diffApi([fn([], 'Promise<void>')], [fn([], 'Promise<string>')])).toMatchObject([
+      { kind: 'return-changed', breaking: true },
+    ])
+    expect(diffApi([fn([], '{ a: string; }')], [fn([], '{ a: string }')])).toEqual([])
+  })
+
+  it('propriedades: opcional→obrigatória quebra, obrigatória→opcional e adição opcional não', () => {
+    const changes = diffApi(
+      [iface([prop('printQRInTerminal', 'boolean'), prop('ephemeralExpiration', 'number', true)])],
+      [
+        iface([
+          prop('printQRInTerminal', 'boolean', true),
+          prop('ephemeralExpiration', 'number'),
+          prop('browser', 'string', true),
+          prop('auth', 'AuthenticationState'),
+        ]),
+      ],
+    )
+
+    const byMember = Object.fromEntries(changes.map((c) => [c.member, c.breaking]))
+    expect(byMember).toEqual({
+      printQRInTerminal: false,
+      ephemeralExpiration: true,
+      browser: false,
+      auth: true,
+    })
+    // Breaking primeiro
+    expect(changes.slice(0, 2).every((c) => c.breaking)).toBe(true)
+  })
+
+  it('membros de enum: adição não quebra, remoção e mudança de valor quebram', () => {
+    const stub = (members: string[]) => declaration({ name: 'WAMessageStubType', kind: 'enum', members })
+
+    const changes = diffApi(
+      [stub(['REVOKE = 1', 'CIPHERTEXT = 2', 'FUTUREPROOF = 3'])],
+      [stub(['REVOKE = 1', 'CIPHERTEXT = 20', 'CIPHERTEXT_NEW = 4'])],
+    )
+
+    expect(changes.map((c) => [c.kind, c.member, c.breaking])).toEqual(
+      expect.arrayContaining([
+        ['member-removed', 'FUTUREPROOF', true],
+        ['member-changed', 'CIPHERTEXT', true],
+        ['member-added', 'CIPHERTEXT_NEW', false],
+      ]),
+    )
+  })
+
+  it('valor de constante alterado não é breaking; definição de tipo alterada é', () => {
+    const constant = (signature: string) => declaration({ name: 'DEFAULT_ORIGIN', kind: 'variable', signature })
+    const alias = (signature: string) => declaration({ name: 'JidServer', kind: 'type', signature })
+
+    expect(diffApi([constant("const A = 'a'")], [constant("const A = 'b'")])).toMatchObject([
+      { kind: 'signature-changed', breaking: false },
+    ])
+    expect(diffApi([alias("type JidServer = 'c.us'")], [alias("type JidServer = 'c.us' | 'g.us'")])).toMatchObject([
+      { kind: 'signature-changed', breaking: true },
+    ])
+  })
+
+  it('propriedades opcionais extraídas do código não viram mudança de tipo', () => {
+    const socketConfig = (body: string) => {
+      const repo = createFixtureRepo({ 'src/Types/Socket.ts': `export interface SocketConfig {\n${body}\n}\n` })
+      cleanups.push(repo.cleanup)
+      return new AstParser(repo.srcDir).extractAllTypes()
+    }
+
+    const before = socketConfig('  browser: string\n  printQRInTerminal?: boolean\n  logger?: () => void')
+    const after = socketConfig('  browser?: string\n  printQRInTerminal: boolean\n  logger?: () => void')
+
+    expect(diffApi(before, after).map((c) => [c.member, c.breaking, c.reason, c.after])).toEqual([
+      ['printQRInTerminal', true, 'propriedade opcional passou a ser obrigatória', 'printQRInTerminal: boolean'],
+      ['browser', false, 'propriedade passou a ser opcional', 'browser?: string'],
+    ])
+  })
+})
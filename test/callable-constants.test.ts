@@ -0,0 +1,39 @@
+import { afterAll, describe, expect, it } from 'vitest'
+import { AstParser } from '../src/ast-parser.js'
+import { createFixtureRepo } from './helpers.js'
+
+const repo = createFixtureRepo({
+  'src/Utils/generics.ts': [
+    '/** Aguarda `ms` milissegundos */',
+    'export const delay = async (ms: number) => {',
+    '  await new Promise((resolve) => setTimeout(resolve, ms))',
+    '}',
+    'export const toNumber = function (value: { low: number } | number) {',
+    "  return typeof value === 'number' ? value : value.low",
+    '}',
+    "export const DEFAULT_ORIGIN = 'https://web.whatsapp.com'",
+    '',
+  ].join('\n'),
+})
+
+afterAll(() => repo.cleanup())
+
+describe('constantes com arrow functions', () => {
+  const types = new AstParser(repo.srcDir).extractAllTypes()
+  const byName = (name: string) => types.find((t) => t.name === name)!
+
+  it('indexa arrow functions e function expressions como funções, com parâmetros e retorno', () => {
+    expect(byName('delay')).toMatchObject({
+      kind: 'function',
+      signature: 'const delay = async (ms: number) => Promise<void>',
+      parameters: [{ name: 'ms', type: 'number', optional: false }],
+      returnType: 'Promise<void>',
+      docs: 'Aguarda `ms` milissegundos',
+    })
+    expect(byName('toNumber')).toMatchObject({ kind: 'function', returnType: 'number' })
+  })
+
+  it('constantes que não são chamáveis continuam como variáveis', () => {
+    expect(byName('DEFAULT_ORIGIN')).toMatchObject({ kind: 'variable', value: "'https://web.whatsapp.com'" })
+  })
+})
@@ -0,0 +1,59 @@
+import { afterAll, describe, expect, it } from 'vitest'
+import { AstParser } from '../src/ast-parser.js'
+import { createFixtureRepo } from './helpers.js'
+
+const repo = createFixtureRepo({
+  'src/Utils/store.ts': [
+    'export abstract class BaseStore {',
+    '  protected abstract flush(): void',
+    '}',
+    '',
+    'export class KeyedDB<T> extends BaseStore {',
+    '  static readonly VERSION = 2',
+    '  private secret = 1',
+    '  protected items: T[] = []',
+    '  constructor(public readonly key: string, private limit?: number) {',
+    '    super()',
+    '  }',
+    '  get size(): number {',
+    '    return this.items.length',
+    '  }',
+    '  set size(value: number) {}',
+    '  static create<T>(key: string): KeyedDB<T> {',
+    '    return new KeyedDB<T>(key)',
+    '  }',
+    '  protected flush(): void {}',
+    '  private hidden() {}',
+    '}',
+    '',
+  ].join('\n'),
+})
+
+afterAll(() => repo.cleanup())
+
+describe('membros de classes', () => {
+  const types = new AstParser(repo.srcDir).extractAllTypes()
+  const keyedDb = types.find((t) => t.name === 'KeyedDB')!
+  const member = (name: string) => [...keyedDb.properties!, ...keyedDb.methods!].find((m) => m.name === name)
+
+  it('inclui construtor, parameter properties, accessors, estáticos e protegidos', () => {
+    expect(member('constructor')).toMatchObject({ isConstructor: true, parameters: ['key: string', 'limit?: number'] })
+    expect(member('key')).toMatchObject({ isParameterProperty: true, readonly: true, scope: 'public' })
+    expect(member('size')).toMatchObject({ accessor: 'get/set', type: 'number' })
+    expect(member('VERSION')).toMatchObject({ isStatic: true, readonly: true })
+    expect(member('create')).toMatchObject({ isStatic: true, returnType: 'KeyedDB<T>' })
+    expect(member('items')).toMatchObject({ scope: 'protected', type: 'T[]' })
+  })
+
+  it('omite membros privados', () => {
+    expect(member('secret')).toBeUndefined()
+    expect(member('hidden')).toBeUndefined()
+    expect(member('limit')).toBeUndefined()
+  })
+
+  it('marca membros abstratos', () => {
+    expect(types.find((t) => t.name === 'BaseStore')?.methods).toMatchObject([
+      { name: 'flush', isAbstract: true, scope: 'protected' },
+    ])
+  })
+})
@@ -0,0 +1,46 @@
+import { afterAll, describe, expect, it } from 'vitest'
+import { AstParser } from '../src/ast-parser.js'
+import { createFixtureRepo } from './helpers.js'
+
+const repo = createFixtureRepo({
+  'WAProto/index.d.ts': 'export namespace proto {\n  interface IMessage {\n    conversation?: string | null\n  }\n}\n',
+  'src/index.ts': "export * from './Types'\nexport * from './Utils'\n",
+  'src/Types/index.ts': "import { proto } from '../../WAProto'\n\nexport type WAMessage = proto.IMessage\n",
+  'src/Utils/index.ts': "export * from './messages'\n",
+  'src/Utils/messages.ts': [
+    "import type { WAMessage } from '../Types'",
+    "import { isGroup } from './jid'",
+    '',
+    'export const getText = (message: WAMessage) => (isGroup() ? message.conversation : undefined)',
+    '',
+  ].join('\n'),
+  'src/Utils/jid.ts': "import { getText } from './messages'\n\nexport const isGroup = () => typeof getText === 'function'\n",
+})
+
+afterAll(() => repo.cleanup())
+
+describe('AstParser.analyzeDependencies', () => {
+  const analysis = new AstParser(repo.srcDir).analyzeDependencies()
+  const byModule = Object.fromEntries(analysis.modules.map((m) => [m.module, m]))
+
+  it('monta as arestas entre módulos a partir dos imports reais, marcando imports só de tipo', () => {
+    expect(analysis.moduleEdges).toContainEqual({ from: 'Utils', to: 'Types', symbols: ['WAMessage'], typeOnly: true })
+    expect(byModule.root.imports.sort()).toEqual(['Types', 'Utils'])
+  })
+
+  it('mantém as arestas para as declarações do WAProto, fora de src/', () => {
+    expect(analysis.fileEdges).toContainEqual({
+      from: 'Types/index.ts',
+      to: '../WAProto/index.d.ts',
+      symbols: ['proto'],
+      typeOnly: false,
+    })
+    expect(byModule.WAProto.fanIn).toBe(1)
+    expect(byModule.WAProto.importedBy).toEqual(['Types'])
+  })
+
+  it('detecta ciclos entre arquivos', () => {
+    expect(analysis.fileCycles.map((cycle) => [...new Set(cycle.path)].sort())).toEqual([['Utils/jid.ts', 'Utils/messages.ts']])
+    expect(analysis.moduleCycles).toEqual([])
+  })
+})
@@ -0,0 +1,59 @@
+import { afterAll, describe, expect, it } from 'vitest'
+import { AstParser, getDeprecationReplacement } from '../src/ast-parser.js'
+import { createFixtureRepo } from './helpers.js'
+
+const repo = createFixtureRepo({
+  'src/Utils/messages.ts': [
+    '/** @deprecated use `downloadMediaMessage` instead */',
+    'export function downloadMedia() {}',
+    '',
+    'export interface MessageOptions {',
+    '  /**',
+    '   * Cita uma mensagem',
+    '   * @deprecated use quoted',
+    '   */',
+    '  quote?: string',
+    '  quoted?: string',
+    '  /** @deprecated */',
+    '  resend(): void',
+    '}',
+    '',
+    'export class Store {',
+    '  /** @deprecated {@link Store.bind} */',
+    '  listen() {}',
+    '  bind() {}',
+    '}',
+    '',
+  ].join('\n'),
+})
+
+afterAll(() => repo.cleanup())
+
+describe('AstParser.getDeprecations', () => {
+  const deprecations = new AstParser(repo.srcDir).getDeprecations()
+  const byName = Object.fromEntries(deprecations.map((d) => [d.name, d]))
+
+  it('reporta declarações, propriedades e métodos deprecated', () => {
+    expect(deprecations.map((d) => [d.name, d.kind, d.declarationKind]).sort()).toEqual([
+      ['MessageOptions.quote', 'property', 'interface'],
+      ['MessageOptions.resend', 'method', 'interface'],
+      ['Store.listen', 'method', 'class'],
+      ['downloadMedia', 'symbol', 'function'],
+    ])
+  })
+
+  it('aponta a linha do próprio membro, não a da declaração que o contém', () => {
+    expect(byName['MessageOptions.quote'].line).toBe(9)
+    expect(byName['MessageOptions.resend'].line).toBe(12)
+    expect(byName['Store.listen'].line).toBe(17)
+    expect(byName.downloadMedia.line).toBe(2)
+  })
+
+  it('sugere o substituto a partir da mensagem do @deprecated', () => {
+    expect(byName.downloadMedia).toMatchObject({ message: 'use `downloadMediaMessage` instead', replacement: 'downloadMediaMessage' })
+    expect(byName['MessageOptions.quote'].replacement).toBe('quoted')
+    expect(byName['Store.listen'].replacement).toBe('Store.bind')
+    expect(byName['MessageOptions.resend'].replacement).toBeUndefined()
+    expect(getDeprecationReplacement({ deprecated: 'removido', see: ['sendMessage'] })).toBe('sendMessage')
+  })
+})
@@ -0,0 +1,43 @@
+import { afterAll, describe, expect, it } from 'vitest'
+import { AstParser } from '../src/ast-parser.js'
+import { createFixtureRepo } from './helpers.js'
+
+const repo = createFixtureRepo({
+  'src/Types/Message.ts': [
+    'export interface WAMessageKey {',
+    '  id?: string',
+    '}',
+    'export type AnyMessageContent = { text: string } | { delete: WAMessageKey }',
+    '',
+  ].join('\n'),
+})
+
+afterAll(() => repo.cleanup())
+
+describe('AstParser.evaluateTypeExpression', () => {
+  const parser = new AstParser(repo.srcDir)
+
+  it('resolve tipos derivados no contexto do whaileys e expande o resultado', () => {
+    const evaluated = parser.evaluateTypeExpression("Extract<AnyMessageContent, { delete: any }>['delete']", 1)
+
+    expect(evaluated.text).toBe('WAMessageKey')
+    expect(evaluated.expanded).toMatchObject({
+      reference: 'WAMessageKey',
+      file: 'Types/Message.ts',
+      children: [{ name: 'id', type: 'string', optional: true }],
+    })
+  })
+
+  it('expande as propriedades de interseções e mapped types', () => {
+    const evaluated = parser.evaluateTypeExpression("Pick<WAMessageKey, 'id'> & { extra: number }", 1)
+
+    expect(evaluated.expanded.children?.map((child) => [child.name, child.optional])).toEqual([
+      ['id', true],
+      ['extra', false],
+    ])
+  })
+
+  it('rejeita expressões inválidas com a mensagem do compilador', () => {
+    expect(() => parser.evaluateTypeExpression('NaoExiste<string>')).toThrow("Tipo inválido: Cannot find name 'NaoExiste'.")
+  })
+})
@@ -0,0 +1,31 @@
+import { afterAll, describe, expect, it } from 'vitest'
+import { AstParser } from '../src/ast-parser.js'
+import { createFixtureRepo, SOCKET_FIXTURE } from './helpers.js'
+
+const repo = createFixtureRepo(SOCKET_FIXTURE)
+
+afterAll(() => repo.cleanup())
+
+describe('AstParser.getEventCatalog', () => {
+  const events = new AstParser(repo.srcDir).getEventCatalog()!
+  const byName = Object.fromEntries(events.map((event) => [event.name, event]))
+
+  it('lista os eventos do BaileysEventMap com docs e payload expandido', () => {
+    expect(events.map((event) => event.name)).toEqual(['messages.upsert', 'connection.update'])
+    expect(byName['messages.upsert'].docs).toBe('Mensagens recebidas ou enviadas')
+    expect(byName['messages.upsert'].payload.children?.map((child) => [child.name, child.type])).toEqual([
+      ['messages', 'WAMessageKey[]'],
+      ['type', "'notify' | 'append'"],
+    ])
+  })
+
+  it('classifica os pontos que emitem e escutam cada evento', () => {
+    expect(byName['messages.upsert'].sites.map((site) => [site.kind, site.file, site.line, site.enclosing])).toEqual([
+      ['listen', 'Socket/messages-send.ts', 8, 'makeMessagesSocket'],
+      ['emit', 'Socket/messages-send.ts', 14, 'makeMessagesSocket › sendMessage'],
+    ])
+    expect(byName['connection.update'].sites).toMatchObject([
+      { kind: 'emit', file: 'Socket/socket.ts', enclosing: 'makeSocket › end' },
+    ])
+  })
+})
@@ -0,0 +1,62 @@
+import { afterAll, describe, expect, it } from 'vitest'
+import { AstParser } from '../src/ast-parser.js'
+import { createFixtureRepo } from './helpers.js'
+
+const repo = createFixtureRepo({
+  'src/Types/Message.ts': `export interface WAMessageKey {
+  /** JID do chat */
+  remoteJid?: string | null
+  fromMe?: boolean
+}
+
+export interface WAMessage {
+  key: WAMessageKey
+  /** @deprecated use key.fromMe */
+  outgoing?: boolean
+  quoted?: WAMessage
+  status: WAMessageStatus
+}
+
+export enum WAMessageStatus {
+  PENDING = 0,
+  SENT = 1,
+}
+
+export const getKey = (message: WAMessage) => message.key
+`,
+})
+
+afterAll(() => repo.cleanup())
+
+describe('AstParser.expandType', () => {
+  const parser = new AstParser(repo.srcDir)
+
+  it('incorpora os tipos referenciados com docs, opcionalidade e deprecated', () => {
+    const expanded = parser.expandType('WAMessage', 2)!
+
+    expect(expanded).toMatchObject({ name: 'WAMessage', file: 'Types/Message.ts' })
+    expect(expanded.children?.map((child) => child.name)).toEqual(['key', 'outgoing', 'quoted', 'status'])
+    expect(expanded.children![0]).toMatchObject({
+      reference: 'WAMessageKey',
+      optional: false,
+      children: [
+        { name: 'remoteJid', type: 'string | null', optional: true, docs: 'JID do chat' },
+        { name: 'fromMe', type: 'boolean', optional: true },
+      ],
+    })
+    expect(expanded.children![1]).toMatchObject({ optional: true, deprecated: 'use key.fromMe' })
+  })
+
+  it('marca referências circulares sem reexpandir', () => {
+    const quoted = parser.expandType('WAMessage', 5)!.children!.find((child) => child.name === 'quoted')
+
+    expect(quoted).toMatchObject({ reference: 'WAMessage', circular: true })
+    expect(quoted?.children).toBeUndefined()
+  })
+
+  it('limita as propriedades por nível e expande o retorno de funções', () => {
+    expect(parser.expandType('WAMessage', 3, 2)).toMatchObject({ omittedProperties: 2 })
+    expect(parser.expandType('getKey', 1)?.children?.map((child) => child.name)).toEqual(['remoteJid', 'fromMe'])
+    expect(parser.expandType('NaoExiste')).toBeNull()
+  })
+})
@@ -0,0 +1,147 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { execFileSync } from 'child_process'
+import { ExtractedType, ParameterInfo, PropertyInfo } from '../src/ast-parser.js'
+
+export function declaration(partial: Partial<ExtractedType> & Pick<ExtractedType, 'name' | 'kind'>): ExtractedType {
+  return {
+    exported: true,
+    file: 'Types/index.ts',
+    module: 'Types',
+    signature: `${partial.kind} ${partial.name}`,
+    ...partial,
+  }
+}
+
+export function param(name: string, type: string, optional = false): ParameterInfo {
+  return { name, type, optional }
+}
+
+export function prop(name: string, type = 'string', optional = false): PropertyInfo {
+  return { name, type, optional, readonly: false, isMethod: false, isCallSignature: false, isIndexSignature: false }
+}
+
+/**
+ * Socket em camadas como o do whaileys (`makeWASocket` → `makeMessagesSocket` → `makeSocket`),
+ * com `BaileysEventMap` e pontos que emitem e escutam eventos.
+ */
+export const SOCKET_FIXTURE: Record<string, string> = {
+  'src/index.ts': "import makeWASocket from './Socket'\n\nexport * from './Types'\nexport default makeWASocket\n",
+  'src/Types/index.ts': "export * from './Events'\nexport * from './Message'\n",
+  'src/Types/Message.ts': [
+    'export interface WAMessageKey {',
+    '  remoteJid?: string | null',
+    '  id?: string',
+    '}',
+    '',
+    'export type AnyMessageContent = { text: string } | { delete: WAMessageKey }',
+    '',
+  ].join('\n'),
+  'src/Types/Events.ts': [
+    "import { WAMessageKey } from './Message'",
+    '',
+    'export interface BaileysEventMap {',
+    '  /** Mensagens recebidas ou enviadas */',
+    "  'messages.upsert': { messages: WAMessageKey[]; type: 'notify' | 'append' }",
+    "  'connection.update': { connection?: 'open' | 'close' }",
+    '}',
+    '',
+  ].join('\n'),
+  'src/Socket/socket.ts': [
+    "import { EventEmitter } from 'events'",
+    '',
+    'export const makeSocket = (config: { browser?: string }) => {',
+    '  const ev = new EventEmitter()',
+    '  /** Encerra a conexão */',
+    '  const end = (error?: Error) => {',
+    "    ev.emit('connection.update', { connection: 'close' })",
+    '  }',
+    '',
+    '  return { ev, end, config }',
+    '}',
+    '',
+  ].join('\n'),
+  'src/Socket/messages-send.ts': [
+    "import { AnyMessageContent, WAMessageKey } from '../Types'",
+    "import { makeSocket } from './socket'",
+    '',
+    'export const makeMessagesSocket = (config: { browser?: string }) => {',
+    '  const sock = makeSocket(config)',
+    '  const { ev } = sock',
+    '',
+    "  ev.on('messages.upsert', () => {})",
+    '',
+    '  return {',
+    '    ...sock,',
+    '    /** Envia uma mensagem */',
+    '    sendMessage: async (jid: string, content: AnyMessageContent): Promise<WAMessageKey> => {',
+    "      ev.emit('messages.upsert', { messages: [], type: 'append' })",
+    '      return { remoteJid: jid }',
+    '    },',
+    '  }',
+    '}',
+    '',
+  ].join('\n'),
+  'src/Socket/index.ts': [
+    "import { makeMessagesSocket } from './messages-send'",
+    '',
+    'const makeWASocket = (config: { browser?: string }) => makeMessagesSocket(config)',
+    '',
+    'export default makeWASocket',
+    '',
+  ].join('\n'),
+}
+
+export interface FixtureRepo {
+  /** Diretório temporário que contém o repositório (útil para um HOME isolado) */
+  root: string
+  /** Raiz do repositório whaileys de teste */
+  dir: string
+  srcDir: string
+  /** Escreve um arquivo relativo à raiz do repositório e devolve o caminho absoluto */
+  write(relativePath: string, content: string): string
+  /** Commita tudo (inicializando o repositório git na primeira chamada) e devolve o SHA */
+  commit(message: string): string
+  cleanup(): void
+}
+
+/**
+ * Cria uma cópia mínima do whaileys em um diretório temporário: `tsconfig.json` na raiz e os
+ * arquivos informados (caminhos relativos à raiz, ex: `src/Types/index.ts`).
+ */
+export function createFixtureRepo(files: Record<string, string>): FixtureRepo {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-whaileys-test-'))
+  const dir = path.join(root, 'whaileys')
+  const git = (...args: string[]) => execFileSync('git', args, { cwd: dir, encoding: 'utf-8', stdio: 'pipe' }).trim()
+
+  const write = (relativePath: string, content: string): string => {
+    const fullPath = path.join(dir, relativePath)
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true })
+    fs.writeFileSync(fullPath, content)
+    return fullPath
+  }
+
+  write('tsconfig.json', JSON.stringify({ compilerOptions: { strict: true, target: 'ES2020', module: 'commonjs' } }))
+  for (const [relativePath, content] of Object.entries(files)) write(relativePath, content)
+
+  return {
+    root,
+    dir,
+    srcDir: path.join(dir, 'src'),
+    write,
+    commit(message) {
+      if (!fs.existsSync(path.join(dir, '.git'))) {
+        git('init', '-q')
+        git('config', 'user.name', 'Test')
+        git('config', 'user.email', 'test@example.com')
+      }
+      git('add', '-A')
+      git('commit', '-q', '-m', message)
+      return git('rev-parse', 'HEAD')
+    },
+    cleanup() {
+      fs.rmSync(root, { recursive: true, force: true })
+    },
+  }
+}
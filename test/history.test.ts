@@ -0,0 +1,65 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { AstParser } from '../src/ast-parser.js'
+import { createFixtureRepo } from './helpers.js'
+
+const repo = createFixtureRepo({
+  'src/WABinary/jid-utils.ts': [
+    'export type JidServer = "c.us" | "g.us"',
+    '',
+    '/** Monta um JID */',
+    'export const jidEncode = (user: string, server: JidServer, device?: number) => {',
+    '  return `${user}:${device}@${server}`',
+    '}',
+    '',
+  ].join('\n'),
+})
+
+let updater: typeof import('../src/auto-updater.js')
+
+beforeAll(async () => {
+  repo.commit('initial')
+  repo.write(
+    'src/WABinary/jid-utils.ts',
+    fs
+      .readFileSync(path.join(repo.srcDir, 'WABinary/jid-utils.ts'), 'utf-8')
+      .replace('device?: number', 'device: number, agent?: number'),
+  )
+  repo.commit('device obrigatório')
+
+  // O diretório do repositório é resolvido a partir de WHAILEYS_PATH quando o módulo é carregado
+  process.env.WHAILEYS_PATH = repo.srcDir
+  updater = await import('../src/auto-updater.js')
+})
+
+afterAll(() => repo.cleanup())
+
+describe('histórico por símbolo', () => {
+  it('localiza o intervalo da declaração relativo à raiz do repositório, com JSDoc', () => {
+    const range = new AstParser(repo.srcDir).getDeclarationRange('jidEncode')
+
+    expect(range).toMatchObject({ kind: 'function', file: 'src/WABinary/jid-utils.ts', startLine: 3, endLine: 6 })
+  })
+
+  it('lista os commits que tocaram a declaração com o trecho antes e depois', () => {
+    const history = updater.getLineHistory('src/WABinary/jid-utils.ts', 3, 6, 10)!
+
+    expect(history.map((entry) => entry.message)).toEqual(['device obrigatório', 'initial'])
+    expect(history[0].diff).toEqual([
+      '-export const jidEncode = (user: string, server: JidServer, device?: number) => {',
+      '+export const jidEncode = (user: string, server: JidServer, device: number, agent?: number) => {',
+    ])
+    expect(history[1].before).toEqual([])
+    expect(updater.isShallowRepository()).toBe(false)
+  })
+
+  it('limita a quantidade de commits e nunca repassa o limite para o shell', () => {
+    const marker = path.join(repo.root, 'INJECTED')
+    const malicious = `1; touch ${marker};` as unknown as number
+
+    expect(updater.getLineHistory('src/WABinary/jid-utils.ts', 3, 6, 1)).toHaveLength(1)
+    expect(updater.getLineHistory('src/WABinary/jid-utils.ts', 3, 6, malicious)).toHaveLength(2)
+    expect(fs.existsSync(marker)).toBe(false)
+  })
+})
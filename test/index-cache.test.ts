@@ -0,0 +1,115 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { AstParser, PARSER_SCHEMA_VERSION } from '../src/ast-parser.js'
+import { createFixtureRepo } from './helpers.js'
+
+const repo = createFixtureRepo({
+  'src/index.ts': "export * from './Types'\n",
+  'src/Types/index.ts': "export * from './Socket'\n",
+  'src/Types/Socket.ts': 'export interface SocketConfig {\n  browser?: string\n}\n',
+  'src/Utils/internal.ts': 'const helper = () => 1\nhelper()\n',
+})
+const srcDir = repo.srcDir
+const tmpDir = repo.root
+const indexDir = path.join(tmpDir, 'home', '.mcp-whaileys', 'index')
+const writeSource = (relativePath: string, content: string): string => repo.write(path.join('src', relativePath), content)
+
+let indexCache: typeof import('../src/index-cache.js')
+
+beforeAll(async () => {
+  // O diretório do cache é resolvido a partir do HOME quando o módulo é carregado
+  process.env.HOME = path.join(tmpDir, 'home')
+  indexCache = await import('../src/index-cache.js')
+})
+
+afterAll(() => repo.cleanup())
+
+describe('index-cache', () => {
+  it('salva e recarrega o índice pelo SHA', () => {
+    const parser = new AstParser(srcDir)
+    const types = parser.extractAllTypes()
+    indexCache.saveIndex('abc1234', types, parser.getIndexedFiles())
+
+    const loaded = indexCache.loadIndex('abc1234')
+    expect(loaded?.types.map((t) => t.name)).toEqual(types.map((t) => t.name))
+    expect(Object.keys(loaded!.files)).toContain('Utils/internal.ts')
+    expect(indexCache.loadIndex('def5678')).toBeNull()
+  })
+
+  it('descarta índices de outra versão do parser', () => {
+    const filePath = path.join(indexDir, 'old0000.json')
+    const data = { schemaVersion: PARSER_SCHEMA_VERSION - 1, sha: 'old0000', dirty: false, createdAt: '', types: [], files: {} }
+    fs.writeFileSync(filePath, JSON.stringify(data))
+
+    expect(indexCache.loadIndex('old0000')).toBeNull()
+  })
+
+  it('mantém o índice da cópia de trabalho separado do índice do commit', () => {
+    indexCache.saveIndex('fff0000', [], {}, true)
+
+    expect(indexCache.loadIndex('fff0000')).toBeNull()
+    expect(indexCache.loadIndex('fff0000', true)?.dirty).toBe(true)
+  })
+
+  it('índices de refs comparadas não expulsam o índice do commit local', () => {
+    indexCache.saveIndex('head000', [], {})
+    for (let i = 0; i < 8; i++) indexCache.saveRefIndex(`ref000${i}`, [], {})
+
+    expect(indexCache.loadIndex('head000')).not.toBeNull()
+    expect(indexCache.loadRefIndex('ref0007')).not.toBeNull()
+    expect(indexCache.loadRefIndex('ref0000')).toBeNull()
+    expect(indexCache.loadIndex('ref0007')).toBeNull()
+  })
+})
+
+describe('AstParser.findStaleFiles', () => {
+  const restore = () => {
+    const source = new AstParser(srcDir)
+    const types = source.extractAllTypes()
+    const files = JSON.parse(JSON.stringify(source.getIndexedFiles()))
+    const createdAt = Date.now()
+
+    const parser = new AstParser(srcDir)
+    parser.setCachedTypes(JSON.parse(JSON.stringify(types)), files)
+    return { parser, createdAt }
+  }
+
+  it('não marca arquivos sem exports como novos', () => {
+    const { parser, createdAt } = restore()
+    expect(parser.findStaleFiles(createdAt)).toEqual([])
+  })
+
+  it('detecta arquivos alterados, novos e removidos', () => {
+    const { parser, createdAt } = restore()
+    const future = new Date(createdAt + 60_000)
+    const changed = path.join(srcDir, 'Types/Socket.ts')
+    fs.utimesSync(changed, future, future)
+    const added = writeSource('Utils/extra.ts', 'export const extra = 1\n')
+    fs.utimesSync(added, new Date(createdAt - 60_000), new Date(createdAt - 60_000))
+    fs.renameSync(path.join(srcDir, 'Utils/internal.ts'), path.join(tmpDir, 'internal.ts'))
+
+    try {
+      expect(parser.findStaleFiles(createdAt).sort()).toEqual(
+        [changed, added, path.join(srcDir, 'Utils/internal.ts')].sort(),
+      )
+    } finally {
+      fs.rmSync(added)
+      fs.renameSync(path.join(tmpDir, 'internal.ts'), path.join(srcDir, 'Utils/internal.ts'))
+    }
+  })
+
+  it('reindexa um arquivo e resolve as cadeias de re-export a partir do índice restaurado', () => {
+    const { parser } = restore()
+    const socketFile = writeSource(
+      'Types/Socket.ts',
+      'export interface SocketConfig {\n  browser?: string\n}\nexport type WAVersion = [number, number, number]\n',
+    )
+
+    expect(parser.refreshFiles([socketFile])).toBe(1)
+
+    const version = parser.extractAllTypes().find((t) => t.name === 'WAVersion')
+    expect(version?.visibility).toBe('public')
+    expect(version?.reExportChains).toEqual(['index.ts → Types/index.ts → Types/Socket.ts'])
+  })
+})
@@ -0,0 +1,57 @@
+import { afterAll, describe, expect, it } from 'vitest'
+import { AstParser } from '../src/ast-parser.js'
+import { createFixtureRepo } from './helpers.js'
+
+const repo = createFixtureRepo({
+  'src/Utils/messages.ts': [
+    '/**',
+    ' * Baixa a mídia de uma mensagem',
+    ' * @param message mensagem com mídia',
+    ' * @param type formato do retorno',
+    ' * @returns o conteúdo baixado',
+    ' * @example',
+    " * const buffer = await downloadMediaMessage(msg, 'buffer')",
+    ' * @see downloadContentFromMessage',
+    ' */',
+    "export const downloadMediaMessage = async (message: object, type: 'buffer' | 'stream') => Buffer.from('')",
+    '',
+    'export interface MediaDownloadOptions {',
+    '  /**',
+    '   * Início do intervalo em bytes',
+    '   * @default 0',
+    '   */',
+    '  startByte?: number',
+    '}',
+    '',
+  ].join('\n'),
+})
+
+afterAll(() => repo.cleanup())
+
+describe('tags JSDoc estruturadas', () => {
+  const types = new AstParser(repo.srcDir).extractAllTypes()
+  const byName = (name: string) => types.find((t) => t.name === name)!
+
+  it('separa descrição, params, returns, examples e see', () => {
+    const download = byName('downloadMediaMessage')
+
+    expect(download.docs).toBe('Baixa a mídia de uma mensagem')
+    expect(download.tags).toEqual({
+      params: [
+        { name: 'message', description: 'mensagem com mídia' },
+        { name: 'type', description: 'formato do retorno' },
+      ],
+      returns: 'o conteúdo baixado',
+      examples: ["const buffer = await downloadMediaMessage(msg, 'buffer')"],
+      see: ['downloadContentFromMessage'],
+    })
+  })
+
+  it('lê as tags das propriedades', () => {
+    expect(byName('MediaDownloadOptions').properties?.[0]).toMatchObject({
+      name: 'startByte',
+      docs: 'Início do intervalo em bytes',
+      tags: { defaultValue: '0' },
+    })
+  })
+})
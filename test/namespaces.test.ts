@@ -0,0 +1,54 @@
+import { afterAll, describe, expect, it } from 'vitest'
+import { AstParser } from '../src/ast-parser.js'
+import { createFixtureRepo } from './helpers.js'
+
+const repo = createFixtureRepo({
+  'src/Types/Binary.ts': [
+    'export namespace Binary {',
+    '  /** Nó do protocolo */',
+    '  export interface Node {',
+    '    tag: string',
+    '  }',
+    '  export const VERSION = 3',
+    '  export function encode(node: Node): Uint8Array {',
+    '    return new Uint8Array()',
+    '  }',
+    '  export namespace Tags {',
+    '    export enum Kind {',
+    '      LIST = 248,',
+    '    }',
+    '  }',
+    '  const internal = 1',
+    '}',
+    '',
+  ].join('\n'),
+})
+
+afterAll(() => repo.cleanup())
+
+describe('namespaces', () => {
+  const parser = new AstParser(repo.srcDir)
+  const types = parser.extractAllTypes()
+  const byName = (name: string) => types.find((t) => t.name === name)
+
+  it('extrai os membros exportados recursivamente com nomes qualificados', () => {
+    expect(types.map((t) => [t.name, t.kind])).toEqual(
+      expect.arrayContaining([
+        ['Binary', 'namespace'],
+        ['Binary.Node', 'interface'],
+        ['Binary.VERSION', 'variable'],
+        ['Binary.encode', 'function'],
+        ['Binary.Tags', 'namespace'],
+        ['Binary.Tags.Kind', 'enum'],
+      ]),
+    )
+    expect(byName('Binary.internal')).toBeUndefined()
+  })
+
+  it('mantém assinatura, docs e linha de cada membro', () => {
+    expect(byName('Binary.encode')).toMatchObject({ signature: 'function encode(node: Node): Uint8Array', lineNumber: 7 })
+    expect(byName('Binary.Node')).toMatchObject({ docs: 'Nó do protocolo', properties: [{ name: 'tag', type: 'string' }] })
+    expect(byName('Binary.Tags.Kind')?.members).toEqual(['LIST = 248'])
+    expect(parser.searchType('Binary.Tags.Kind')?.kind).toBe('enum')
+  })
+})
@@ -0,0 +1,94 @@
+import { afterAll, describe, expect, it, vi } from 'vitest'
+import { ProtoParser } from '../src/proto-parser.js'
+import { createFixtureRepo, FixtureRepo } from './helpers.js'
+
+const PROTO = `syntax = "proto2";
+package proto;
+
+message Message {
+    optional string conversation = 1;
+    optional ImageMessage imageMessage = 3;
+    repeated string mentionedJid = 4 [deprecated = true];
+    map<string, int32> counters = 5;
+    oneof content {
+        string text = 6;
+        bytes raw = 7;
+    }
+
+    message ImageMessage {
+        optional string url = 1;
+        optional MediaType mediaType = 2;
+    }
+
+    enum MediaType {
+        IMAGE = 0;
+        STICKER = 1 [deprecated = true];
+    }
+}
+
+message Reply {
+    optional Message.ImageMessage thumbnail = 1;
+}
+`
+
+const repos: FixtureRepo[] = []
+const protoParser = (proto: string): ProtoParser => {
+  const repo = createFixtureRepo({ 'WAProto/WAProto.proto': proto, 'src/index.ts': 'export {}\n' })
+  repos.push(repo)
+  return new ProtoParser(repo.srcDir)
+}
+
+afterAll(() => repos.forEach((repo) => repo.cleanup()))
+
+describe('ProtoParser', () => {
+  const parser = protoParser(PROTO)
+
+  it('extrai tags, labels, maps, oneofs e opções dos campos', () => {
+    const message = parser.getDefinition('Message')!
+
+    expect(message.tsName).toBe('proto.IMessage')
+    expect(message.nested).toEqual(['Message.ImageMessage', 'Message.MediaType'])
+    expect(message.fields!.map((f) => [f.name, f.tag, f.label, f.repeated, f.oneof, f.deprecated])).toEqual([
+      ['conversation', 1, 'optional', false, undefined, false],
+      ['imageMessage', 3, 'optional', false, undefined, false],
+      ['mentionedJid', 4, 'repeated', true, undefined, true],
+      ['counters', 5, 'optional', true, undefined, false],
+      ['text', 6, 'optional', false, 'content', false],
+      ['raw', 7, 'optional', false, 'content', false],
+    ])
+    expect(message.fields![3]).toMatchObject({ type: 'int32', mapKeyType: 'string' })
+  })
+
+  it('resolve o tipo dos campos pelas regras de escopo e acha a definição pelo nome TS', () => {
+    const image = parser.getDefinition('proto.Message.IImageMessage')!
+
+    expect(image.fullName).toBe('Message.ImageMessage')
+    expect(image.fields!.find((f) => f.name === 'mediaType')?.resolvedType).toBe('Message.MediaType')
+    expect(parser.getReferencingFields('Message.ImageMessage').map((m) => `${m.message.name}.${m.field.name}`)).toEqual([
+      'Message.imageMessage',
+      'Reply.thumbnail',
+    ])
+  })
+
+  it('lista campos e valores de enum deprecated', () => {
+    expect(parser.getDeprecations().map((d) => [d.kind, d.definition.fullName, d.member])).toEqual([
+      ['field', 'Message', 'mentionedJid'],
+      ['enum-value', 'Message.MediaType', 'STICKER'],
+    ])
+  })
+
+  it('construções não suportadas não derrubam as buscas: o erro é registrado uma vez e não há resultados', () => {
+    const log = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const broken = protoParser(`${PROTO}\nmessage Legacy {\n    optional group Result = 1 {\n        optional string url = 2;\n    }\n}\n`)
+
+    try {
+      expect(broken.search('Message')).toEqual({ definitions: [], fields: [] })
+      expect(broken.getDefinition('ImageMessage')).toBeUndefined()
+      expect(broken.getDeprecations()).toEqual([])
+      expect(broken.getParseError()).toMatch(/^Erro ao analisar WAProto\/WAProto\.proto \(linha \d+\)/)
+      expect(log).toHaveBeenCalledTimes(1)
+    } finally {
+      log.mockRestore()
+    }
+  })
+})
@@ -0,0 +1,38 @@
+import { afterAll, describe, expect, it } from 'vitest'
+import { AstParser } from '../src/ast-parser.js'
+import { createFixtureRepo } from './helpers.js'
+
+const repo = createFixtureRepo({
+  'src/index.ts': "export * from './Types'\nexport { jidDecode as decodeJid } from './WABinary'\n",
+  'src/Types/index.ts': "export * from './Message'\nexport type { AuthState as AuthenticationState } from './Auth'\n",
+  'src/Types/Message.ts': 'export interface WAMessageKey {\n  id?: string\n}\n',
+  'src/Types/Auth.ts': 'export interface AuthState {\n  creds: string\n}\n',
+  'src/WABinary/index.ts': "export * from './jid-utils'\n",
+  'src/WABinary/jid-utils.ts': 'export const jidDecode = (jid: string) => jid\nexport const jidEncode = (user: string) => user\n',
+})
+
+afterAll(() => repo.cleanup())
+
+describe('resolução de re-exports', () => {
+  const parser = new AstParser(repo.srcDir)
+  const types = parser.extractAllTypes()
+  const byName = (name: string) => types.find((t) => t.name === name && t.kind !== 're-export')!
+
+  it('segue `export *` e exports nomeados até a declaração concreta', () => {
+    expect(byName('WAMessageKey').reExportChains).toEqual(['index.ts → Types/index.ts → Types/Message.ts'])
+    expect(byName('jidDecode').reExportChains).toEqual(['index.ts → WABinary/index.ts → WABinary/jid-utils.ts'])
+  })
+
+  it('registra os aliases e encontra a declaração pelo nome exportado', () => {
+    expect(byName('AuthState').exportedAs).toEqual(['AuthenticationState'])
+    expect(byName('jidDecode').exportedAs).toEqual(['decodeJid'])
+    expect(parser.searchType('AuthenticationState')?.name).toBe('AuthState')
+    expect(parser.searchType('decodeJid')?.file).toBe('WABinary/jid-utils.ts')
+  })
+
+  it('lista o que cada re-export expõe', () => {
+    const star = types.find((t) => t.kind === 're-export' && t.file === 'Types/index.ts' && t.name.startsWith('*'))
+
+    expect(star?.resolvedExports).toEqual(['WAMessageKey → Types/Message.ts'])
+  })
+})
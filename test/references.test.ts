@@ -0,0 +1,39 @@
+import { afterAll, describe, expect, it } from 'vitest'
+import { AstParser } from '../src/ast-parser.js'
+import { createFixtureRepo } from './helpers.js'
+
+const repo = createFixtureRepo({
+  'src/index.ts': "export * from './WABinary/jid-utils'\n",
+  'src/WABinary/jid-utils.ts': "export const jidDecode = (jid: string) => jid.split('@')[0]\n",
+  'src/Socket/groups.ts': [
+    "import { jidDecode } from '../WABinary/jid-utils'",
+    '',
+    'export function groupMetadata(jid: string) {',
+    '  const user = jidDecode(jid)',
+    '  return [user].map((u) => jidDecode(u))',
+    '}',
+    '',
+  ].join('\n'),
+})
+
+afterAll(() => repo.cleanup())
+
+describe('AstParser.findReferences', () => {
+  const parser = new AstParser(repo.srcDir)
+
+  it('lista imports e usos com a função que os contém, ordenados por arquivo e linha', () => {
+    const result = parser.findReferences('jidDecode')!
+
+    expect(result.type.file).toBe('WABinary/jid-utils.ts')
+    expect(result.references.map((r) => [r.file, r.line, r.kind, r.enclosing])).toEqual([
+      ['Socket/groups.ts', 1, 'import', '(top-level)'],
+      ['Socket/groups.ts', 4, 'usage', 'groupMetadata'],
+      ['Socket/groups.ts', 5, 'usage', 'groupMetadata › [user].map()'],
+    ])
+    expect(result.references[1].snippet).toBe('const user = jidDecode(jid)')
+  })
+
+  it('retorna null para símbolos desconhecidos', () => {
+    expect(parser.findReferences('NaoExiste')).toBeNull()
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { SearchIndex, tokenize } from '../src/search-index.js'
+import { ExtractedType } from '../src/ast-parser.js'
+import { declaration, prop } from './helpers.js'
+
+const types: ExtractedType[] = [
+  declaration({ name: 'makeWASocket', kind: 'function', file: 'Socket/index.ts', module: 'Socket' }),
+  declaration({ name: 'WAMessage', kind: 'type', file: 'Types/Message.ts' }),
+  declaration({ name: 'WAMessageKey', kind: 'type', file: 'Types/Message.ts' }),
+  declaration({ name: 'messages', kind: 'variable', file: 'Utils/messages.ts', module: 'Utils' }),
+  declaration({ name: 'MessageUpsertType', kind: 'type', file: 'Types/Message.ts' }),
+  declaration({ name: 'SocketConfig', kind: 'type', properties: [prop('printQRInTerminal'), prop('browser')] }),
+  declaration({ name: 'jidEncode', kind: 'function', file: 'WABinary/jid-utils.ts', module: 'WABinary' }),
+  declaration({ name: './Message', kind: 're-export', reExportSource: './Message' }),
+]
+
+describe('tokenize', () => {
+  it('quebra camelCase, PascalCase e snake_case e mantém o identificador inteiro', () => {
+    expect(tokenize('makeWASocket')).toEqual(['make', 'wa', 'socket', 'makewasocket'])
+    expect(tokenize('print_qr_code')).toEqual(['print', 'qr', 'code', 'printqrcode'])
+    expect(tokenize('Types/Message.ts')).toEqual(['types', 'message', 'ts'])
+  })
+})
+
+describe('SearchIndex', () => {
+  const index = new SearchIndex(types)
+  const names = (query: string, max = 20) => index.search(query, max).map((hit) => hit.type.name)
+
+  it('retorna vazio para consulta sem termos', () => {
+    expect(index.search('  ')).toEqual([])
+  })
+
+  it('nome exato vem antes de nomes mais longos que o contêm', () => {
+    expect(names('WAMessage')[0]).toBe('WAMessage')
+    expect(names('make socket')[0]).toBe('makeWASocket')
+  })
+
+  it('casa por prefixo', () => {
+    expect(names('jidEnc')[0]).toBe('jidEncode')
+  })
+
+  it('corrige typos e marca o match como fuzzy', () => {
+    const [typo] = index.search('mesage key')
+    expect(typo.type.name).toBe('WAMessageKey')
+    expect(typo.matches.find((m) => m.term === 'mesage')).toMatchObject({ matched: 'message', fuzzy: true })
+  })
+
+  it('encontra declarações pelo nome de propriedades', () => {
+    const [hit] = index.search('printQRInTerminal')
+    expect(hit.type.name).toBe('SocketConfig')
+    expect(hit.matches[0]).toMatchObject({ field: 'property', value: 'printQRInTerminal' })
+  })
+
+  it('re-exports não competem pelo nome com as declarações', () => {
+    const results = names('message')
+    expect(results.indexOf('./Message')).toBeGreaterThan(results.indexOf('messages'))
+  })
+
+  it('respeita o limite de resultados', () => {
+    expect(index.search('message', 2)).toHaveLength(2)
+  })
+})
@@ -0,0 +1,61 @@
+import { afterAll, describe, expect, it } from 'vitest'
+import { AstParser } from '../src/ast-parser.js'
+import { createFixtureRepo } from './helpers.js'
+
+const repo = createFixtureRepo({
+  'src/Types/Message.ts': [
+    'export interface WAMessageKey {',
+    '  remoteJid?: string',
+    '  id?: string',
+    '}',
+    'export type MessageKeyAlias = WAMessageKey',
+    'export interface MessageStore {',
+    '  lastKey: WAMessageKey',
+    '  count: number',
+    '}',
+    '',
+  ].join('\n'),
+  'src/Utils/messages.ts': [
+    "import { WAMessageKey, MessageKeyAlias } from '../Types/Message'",
+    '',
+    "export const getKeyAuthor = (key: WAMessageKey, meId = '') => key.remoteJid ?? meId",
+    "export const isJidGroup = (jid: string) => jid.endsWith('@g.us')",
+    'export async function fetchKey(id: string): Promise<MessageKeyAlias> {',
+    '  return { id }',
+    '}',
+    'export function toKey(jid: string, id: string): WAMessageKey {',
+    '  return { remoteJid: jid, id }',
+    '}',
+    '',
+  ].join('\n'),
+})
+
+afterAll(() => repo.cleanup())
+
+describe('AstParser.searchBySignature', () => {
+  const parser = new AstParser(repo.srcDir)
+  const names = (...args: Parameters<AstParser['searchBySignature']>) =>
+    parser.searchBySignature(...args).map((match) => match.type.name)
+
+  it('encontra funções pelos tipos dos parâmetros e do retorno', () => {
+    expect(names({ parameters: ['WAMessageKey'] })).toEqual(['getKeyAuthor'])
+    expect(names({ parameters: ['string'], returnType: 'boolean' })).toEqual(['isJidGroup'])
+  })
+
+  it('resolve aliases e desembrulha Promise, ranqueando o match direto primeiro', () => {
+    const [direct, viaPromise] = parser.searchBySignature({ returnType: 'WAMessageKey' })
+
+    expect(direct.type.name).toBe('toKey')
+    expect(viaPromise.type.name).toBe('fetchKey')
+    expect(viaPromise.details).toEqual([{ role: 'return', type: 'Promise<WAMessageKey>', exact: true, viaPromise: true }])
+    expect(viaPromise.score).toBeLessThan(direct.score)
+  })
+
+  it('encontra propriedades de interfaces pelo tipo ou pelo nome', () => {
+    expect(parser.searchBySignature({ propertyType: 'WAMessageKey' })[0]).toMatchObject({
+      type: { name: 'MessageStore' },
+      signature: 'lastKey: WAMessageKey',
+    })
+    expect(names({ propertyName: 'count' })).toEqual(['MessageStore'])
+  })
+})
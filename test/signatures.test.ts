@@ -0,0 +1,43 @@
+import { afterAll, describe, expect, it } from 'vitest'
+import { AstParser } from '../src/ast-parser.js'
+import { createFixtureRepo } from './helpers.js'
+
+const repo = createFixtureRepo({
+  'src/Utils/generics.ts': [
+    "export const generateMessageID = (prefix = '3EB0', ...parts: string[]): string => prefix + parts.join('')",
+    '',
+    'export function encode(data: string): Buffer',
+    "export function encode(data: Buffer, encoding: 'hex' | 'base64'): Buffer",
+    'export function encode(data: string | Buffer, encoding?: string): Buffer {',
+    '  return Buffer.from(data as string, encoding as BufferEncoding)',
+    '}',
+    '',
+  ].join('\n'),
+})
+
+afterAll(() => repo.cleanup())
+
+describe('assinaturas de funções', () => {
+  const types = new AstParser(repo.srcDir).extractAllTypes()
+  const byName = (name: string) => types.find((t) => t.name === name)!
+
+  it('mostra valores default e parâmetros rest como declarados', () => {
+    const generate = byName('generateMessageID')
+
+    expect(generate.signature).toBe("const generateMessageID = (prefix: string = '3EB0', ...parts: string[]) => string")
+    expect(generate.parameters).toEqual([
+      { name: 'prefix', type: 'string', optional: true, defaultValue: "'3EB0'" },
+      { name: 'parts', type: 'string[]', optional: false, rest: true },
+    ])
+  })
+
+  it('lista todas as sobrecargas, sem a assinatura de implementação', () => {
+    const encode = byName('encode')
+
+    expect(encode.overloads?.map((o) => o.signature)).toEqual([
+      'function encode(data: string): Buffer',
+      "function encode(data: Buffer, encoding: 'hex' | 'base64'): Buffer",
+    ])
+    expect(encode.overloads?.[1].parameters.map((p) => p.name)).toEqual(['data', 'encoding'])
+  })
+})
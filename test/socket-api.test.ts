@@ -0,0 +1,37 @@
+import { afterAll, describe, expect, it } from 'vitest'
+import { AstParser } from '../src/ast-parser.js'
+import { createFixtureRepo, SOCKET_FIXTURE } from './helpers.js'
+
+const repo = createFixtureRepo(SOCKET_FIXTURE)
+
+afterAll(() => repo.cleanup())
+
+describe('AstParser.getSocketApi', () => {
+  const api = new AstParser(repo.srcDir).getSocketApi()!
+
+  it('segue as camadas de fábricas a partir do makeWASocket', () => {
+    expect(api.factory.name).toBe('makeWASocket')
+    expect(api.layers.map((layer) => [layer.factory, layer.file])).toEqual([
+      ['makeWASocket', 'Socket/index.ts'],
+      ['makeMessagesSocket', 'Socket/messages-send.ts'],
+      ['makeSocket', 'Socket/socket.ts'],
+    ])
+  })
+
+  it('lista cada membro com a fábrica que o define, tipo, docs e linhas', () => {
+    const byName = Object.fromEntries(api.members.map((member) => [member.name, member]))
+
+    expect(Object.keys(byName).sort()).toEqual(['config', 'end', 'ev', 'sendMessage'])
+    expect(byName.sendMessage).toMatchObject({
+      type: '(jid: string, content: AnyMessageContent) => Promise<WAMessageKey>',
+      isMethod: true,
+      docs: 'Envia uma mensagem',
+      factory: 'makeMessagesSocket',
+      file: 'Socket/messages-send.ts',
+      line: 13,
+      endLine: 16,
+    })
+    expect(byName.end).toMatchObject({ factory: 'makeSocket', isMethod: true, docs: 'Encerra a conexão' })
+    expect(byName.config).toMatchObject({ factory: 'makeSocket', isMethod: false })
+  })
+})
@@ -0,0 +1,53 @@
+import { afterAll, describe, expect, it } from 'vitest'
+import { AstParser } from '../src/ast-parser.js'
+import { createFixtureRepo } from './helpers.js'
+
+const repo = createFixtureRepo({
+  'src/Types/Message.ts': [
+    'export interface WAMessageKey {',
+    '  id?: string',
+    '}',
+    'type Mentionable = { mentions?: string[] }',
+    'export type ImageContent = { image: Buffer; caption?: string } & Mentionable',
+    'export type AnyMessageContent =',
+    '  | ({ text: string } & Mentionable)',
+    '  | ImageContent',
+    '  | { delete: WAMessageKey }',
+    "  | { type: 'poll'; name: string; values: string[] }",
+    "  | { type: 'event'; name: string }",
+    "export type ReceiptType = { type: 'read'; at: number } | { type: 'played' }",
+    '',
+  ].join('\n'),
+})
+
+afterAll(() => repo.cleanup())
+
+describe('AstParser.getUnionVariants', () => {
+  const parser = new AstParser(repo.srcDir)
+
+  it('separa cada variante em propriedades obrigatórias e opcionais, achatando interseções', () => {
+    const analysis = parser.getUnionVariants('AnyMessageContent')!
+    const byLabel = Object.fromEntries(analysis.variants.map((variant) => [variant.label, variant]))
+
+    expect(analysis.kind).toBe('union')
+    expect(Object.keys(byLabel).sort()).toEqual(['ImageContent', '{ delete }', '{ text }', '{ type, name }', '{ type, name, values }'])
+    expect(byLabel.ImageContent).toMatchObject({
+      required: [{ name: 'image', type: 'Buffer' }],
+      optional: [{ name: 'caption' }, { name: 'mentions' }],
+    })
+  })
+
+  it('indica as chaves que identificam cada variante e as compartilhadas por algumas', () => {
+    const analysis = parser.getUnionVariants('AnyMessageContent')!
+    const byLabel = Object.fromEntries(analysis.variants.map((variant) => [variant.label, variant]))
+
+    expect(byLabel['{ delete }'].exclusiveKeys).toEqual(['delete'])
+    expect(byLabel['{ type, name, values }'].exclusiveKeys).toEqual(['values'])
+    expect(byLabel['{ type, name }'].exclusiveKeys).toEqual([])
+    expect(analysis.shared.map((property) => property.name).sort()).toEqual(['mentions', 'name', 'type'])
+  })
+
+  it('detecta discriminantes com valores literais distintos', () => {
+    expect(parser.getUnionVariants('ReceiptType')).toMatchObject({ discriminants: ['type'], common: ['type'] })
+  })
+})
@@ -0,0 +1,66 @@
+import { afterAll, describe, expect, it } from 'vitest'
+import { AstParser } from '../src/ast-parser.js'
+import { createFixtureRepo, SOCKET_FIXTURE } from './helpers.js'
+
+const repo = createFixtureRepo({
+  ...SOCKET_FIXTURE,
+  'Example/example.ts': [
+    "import makeWASocket from '../src'",
+    '',
+    'const startSock = async () => {',
+    "  const sock = makeWASocket({ browser: 'Chrome' })",
+    "  await sock.sendMessage('5511999999999@s.whatsapp.net', { text: 'oi' })",
+    '}',
+    '',
+    'startSock()',
+    '',
+  ].join('\n'),
+  'src/Tests/test.messages.ts': [
+    "import makeWASocket from '../Socket'",
+    '',
+    "describe('mensagens', () => {",
+    "  it('apaga', async () => {",
+    '    const sock = makeWASocket({})',
+    "    await sock.sendMessage('1@s.whatsapp.net', { delete: {} })",
+    '  })',
+    '})',
+    '',
+  ].join('\n'),
+})
+
+afterAll(() => repo.cleanup())
+
+describe('AstParser.getUsageExamples', () => {
+  const parser = new AstParser(repo.srcDir)
+
+  it('encontra chamadas de métodos do socket em Example/ e nos testes, exemplos primeiro', () => {
+    expect(parser.getUsageExamples('sendMessage')).toEqual([
+      {
+        symbol: 'sendMessage',
+        file: 'Example/example.ts',
+        line: 5,
+        source: 'example',
+        kind: 'call',
+        enclosing: 'startSock',
+        snippet: "await sock.sendMessage('5511999999999@s.whatsapp.net', { text: 'oi' })",
+      },
+      {
+        symbol: 'sendMessage',
+        file: 'src/Tests/test.messages.ts',
+        line: 6,
+        source: 'test',
+        kind: 'call',
+        enclosing: 'describe() › it()',
+        snippet: "await sock.sendMessage('1@s.whatsapp.net', { delete: {} })",
+      },
+    ])
+  })
+
+  it('ignora imports, aceita o nome sem diferenciar maiúsculas e respeita o limite', () => {
+    const examples = parser.getUsageExamples('makewasocket', 1)
+
+    expect(examples).toHaveLength(1)
+    expect(examples[0]).toMatchObject({ symbol: 'makeWASocket', file: 'Example/example.ts', line: 4 })
+    expect(parser.getUsageExamples('naoExiste')).toEqual([])
+  })
+})
@@ -0,0 +1,40 @@
+import { afterAll, describe, expect, it } from 'vitest'
+import { AstParser } from '../src/ast-parser.js'
+import { createFixtureRepo, SOCKET_FIXTURE } from './helpers.js'
+
+const repo = createFixtureRepo({
+  ...SOCKET_FIXTURE,
+  'src/Utils/jid.ts': [
+    "export const jidEncode = (user: string | number, server: 's.whatsapp.net' | 'g.us', device?: number) =>",
+    '  `${user}@${server}`',
+    '',
+  ].join('\n'),
+})
+
+afterAll(() => repo.cleanup())
+
+describe('AstParser.generateUsageSkeleton', () => {
+  const parser = new AstParser(repo.srcDir)
+
+  it('gera uma chamada com um valor de exemplo por parâmetro, que compila contra o whaileys', () => {
+    const skeleton = parser.generateUsageSkeleton('jidEncode')!
+
+    expect(skeleton).toMatchObject({ symbol: 'jidEncode', target: 'function', diagnostics: [] })
+    expect(skeleton.code).toContain("import { jidEncode } from 'whaileys/lib/Utils/jid'")
+    expect(skeleton.code).toContain("    's.whatsapp.net', // server: 's.whatsapp.net' | 'g.us'\n")
+    expect(skeleton.code).toContain('    0, // device: number\n')
+  })
+
+  it('métodos do socket usam uma instância declarada de makeWASocket e sugerem as variantes da união', () => {
+    const skeleton = parser.generateUsageSkeleton('sendMessage')!
+
+    expect(skeleton).toMatchObject({ symbol: 'sock.sendMessage', target: 'socket', diagnostics: [] })
+    expect(skeleton.code).toContain('declare const sock: ReturnType<typeof makeWASocket>')
+    expect(skeleton.code).toContain('const result = await sock.sendMessage(')
+    expect(skeleton.code).toContain('/* variantes: { text } | { delete } */')
+  })
+
+  it('retorna null para o que não é chamável', () => {
+    expect(parser.generateUsageSkeleton('WAMessageKey')).toBeNull()
+  })
+})
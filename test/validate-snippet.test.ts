@@ -0,0 +1,42 @@
+import { afterAll, describe, expect, it } from 'vitest'
+import { AstParser } from '../src/ast-parser.js'
+import { createFixtureRepo, SOCKET_FIXTURE } from './helpers.js'
+
+const repo = createFixtureRepo(SOCKET_FIXTURE)
+
+afterAll(() => repo.cleanup())
+
+describe('AstParser.validateSnippet', () => {
+  const parser = new AstParser(repo.srcDir)
+
+  it('aceita código que usa a API corretamente', () => {
+    const code = [
+      "import makeWASocket from 'whaileys'",
+      '',
+      "const sock = makeWASocket({ browser: 'Chrome' })",
+      "sock.sendMessage('5511999999999@s.whatsapp.net', { text: 'oi' })",
+      '',
+    ].join('\n')
+
+    expect(parser.validateSnippet(code)).toEqual([])
+  })
+
+  it('reporta os erros com posição e a declaração do whaileys envolvida', () => {
+    const code = [
+      "import makeWASocket, { WAMessageKey } from 'whaileys'",
+      '',
+      'const key: WAMessageKey = { remoteJid: 1 }',
+      "makeWASocket({}).sendMessage('x', { texto: 'oi' })",
+      '',
+    ].join('\n')
+
+    const diagnostics = parser.validateSnippet(code)
+
+    expect(diagnostics.map((d) => [d.line, d.code, d.related?.name])).toEqual([
+      [3, 2322, 'WAMessageKey.remoteJid'],
+      [4, 2353, 'makeMessagesSocket.sendMessage'],
+    ])
+    expect(diagnostics[1].message).toContain("'texto' does not exist in type 'AnyMessageContent'")
+    expect(diagnostics[0].related).toMatchObject({ file: 'Types/Message.ts', line: 2, text: 'remoteJid?: string | null' })
+  })
+})
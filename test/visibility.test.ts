@@ -0,0 +1,34 @@
+import { afterAll, describe, expect, it } from 'vitest'
+import { AstParser } from '../src/ast-parser.js'
+import { createFixtureRepo } from './helpers.js'
+
+const repo = createFixtureRepo({
+  'src/index.ts': [
+    "import makeWASocket from './Socket'",
+    '',
+    "export * from './Types'",
+    "export { jidDecode } from './WABinary/jid-utils'",
+    'export default makeWASocket',
+    '',
+  ].join('\n'),
+  'src/Types/index.ts': "export * from './Message'\n",
+  'src/Types/Message.ts': 'export interface WAMessageKey {\n  id?: string\n}\n',
+  'src/WABinary/jid-utils.ts': 'export const jidDecode = (jid: string) => jid\nexport const jidEncode = (user: string) => user\n',
+  'src/Socket/index.ts': 'const makeWASocket = (config: { browser?: string }) => config\n\nexport default makeWASocket\n',
+  'src/Utils/internal.ts': 'export const helper = () => 1\n',
+})
+
+afterAll(() => repo.cleanup())
+
+describe('API pública a partir do entry point', () => {
+  const types = new AstParser(repo.srcDir).extractAllTypes().filter((t) => t.kind !== 're-export')
+  const visibility = Object.fromEntries(types.map((t) => [t.name, t.visibility]))
+
+  it('marca como públicas as declarações alcançáveis pelo index.ts, inclusive o export default', () => {
+    expect(visibility).toMatchObject({ WAMessageKey: 'public', jidDecode: 'public', makeWASocket: 'public' })
+  })
+
+  it('exports que o entry point não repassa são internos', () => {
+    expect(visibility).toMatchObject({ jidEncode: 'internal', helper: 'internal' })
+  })
+})